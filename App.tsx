@@ -1,13 +1,44 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { Investment, MarketRates } from './types';
+import { FgcGuaranteeEvent, Holder, Investment, InvestmentRedemption, InvestmentStatus, MarketRates, PartialRedemption, RateCurveVertex, RateHistoryEntry } from './types';
 import { InvestmentForm } from './components/InvestmentForm';
 import { StatsCard } from './components/StatsCard';
 import { FGCCard } from './components/FGCCard';
-import { calculateFutureValue, formatCurrency, formatDate } from './utils/calculations';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts';
-import { Wallet, TrendingUp, Calendar, LayoutDashboard, List, Trash2, ShieldCheck, Plus, Pencil, Settings, Loader2, ChevronUp, ChevronDown, ArrowUpDown, Download, Bell, X } from 'lucide-react';
+import { FGCGlobalCard } from './components/FGCGlobalCard';
+import { RedemptionModal } from './components/RedemptionModal';
+import { PartialRedemptionModal } from './components/PartialRedemptionModal';
+import { FGCEventHistory } from './components/FGCEventHistory';
+import { FGCAllocationAdvisor } from './components/FGCAllocationAdvisor';
+import { RateHistoryPanel } from './components/RateHistoryPanel';
+import { RateCurvePanel } from './components/RateCurvePanel';
+import { ImportWizard } from './components/ImportWizard';
+import { CashFlowView } from './components/CashFlowView';
+import { LoginScreen } from './components/LoginScreen';
+import { HolderSettings } from './components/HolderSettings';
+import { ReinvestmentSimulator } from './components/ReinvestmentSimulator';
+import { ScenarioComparison } from './components/ScenarioComparison';
+import { SyncStatusIndicator } from './components/SyncStatusIndicator';
+import { ToastContainer } from './components/ToastContainer';
+import { ClosedPositions } from './components/ClosedPositions';
+import { InvestmentHistoryDrawer } from './components/InvestmentHistoryDrawer';
+import { AuditLogPanel } from './components/AuditLogPanel';
+import { TrashPanel } from './components/TrashPanel';
+import { PortfolioAnalyticsPanel } from './components/PortfolioAnalyticsPanel';
+import { AllocationChart } from './components/AllocationChart';
+import { DefaultRatesBanner, RatesSource } from './components/DefaultRatesBanner';
+import { calculateFutureValue, calculateCurrentValue, CalculationResult, formatCurrency, formatDate } from './utils/calculations';
+import { resolveIncomeTax } from './utils/taxes';
+import { isTesouroTitle } from './utils/tesouro';
+import { DEFAULT_MARKET_RATES, mergeRateHistory } from './utils/rates';
+import { getFgcEligibility, getFgcExposureByHolder, getGlobalCoverage, isFgcCovered } from './utils/fgc';
+import { closeInvestment, getInvestmentStatus, getRealizedGain, INVESTMENT_STATUS_LABELS, isInTrash, isOpenPosition, reopenInvestment } from './utils/lifecycle';
+import { analyzePortfolio } from './utils/analytics';
+import { ALLOCATION_DIMENSION_LABELS, AllocationFilter, matchesAllocationFilter } from './utils/allocation';
+import { canRedeemOn, describeLiquidity, getRemainingPrincipal } from './utils/liquidity';
+import { ALL_HOLDERS, describeHolders, getHolderFraction, getHolderName, getHolderPortfolio, UNASSIGNED_HOLDER } from './utils/holders';
+import { Wallet, TrendingUp, Calendar, LayoutDashboard, List, Trash2, ShieldCheck, Plus, Pencil, Settings, Loader2, ChevronUp, ChevronDown, ArrowUpDown, Download, Upload, Bell, X, Calculator, PiggyBank, CalendarDays, FlaskConical, LogOut, Archive, ArrowDownToLine, History } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import type { Session } from '@supabase/supabase-js';
 import {
   fetchInvestments,
   addInvestment,
@@ -15,13 +46,37 @@ import {
   deleteInvestment,
   fetchMarketRates,
   saveMarketRates,
-  updateInvestmentValues
+  fetchRateHistory,
+  saveRateHistoryEntries,
+  deleteRateHistoryEntry,
+  fetchRateCurve,
+  saveRateCurve,
+  updateInvestmentValues,
+  restoreInvestmentVersion,
+  trashInvestment,
+  restoreFromTrash
 } from './services/investmentService';
+import { fetchGuaranteeEvents, addGuaranteeEvent, deleteGuaranteeEvent } from './services/fgcService';
+import { getSession, onSessionChange, signOut } from './services/authService';
+import { fetchHolders, addHolder, deleteHolder } from './services/holderService';
+import { PERSISTENCE_BACKEND } from './services/repository';
+import { notify, reportFailure } from './services/notifications';
+import { isFailure, ServiceResult } from './services/result';
+
+// No modo local (sem Supabase) não há login: os dados ficam no navegador
+const AUTH_ENABLED = PERSISTENCE_BACKEND === 'supabase';
+const LOCAL_USER_ID = 'local';
 
 const App: React.FC = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isAuthLoading, setIsAuthLoading] = useState(true);
   const [investments, setInvestments] = useState<Investment[]>([]);
-  const [marketRates, setMarketRates] = useState<MarketRates>({ cdi: 11.25, ipca: 4.5 });
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'investments' | 'fgc' | 'settings'>('dashboard');
+  const [marketRates, setMarketRates] = useState<MarketRates>({ ...DEFAULT_MARKET_RATES });
+  const [ratesSource, setRatesSource] = useState<RatesSource>('saved');
+  const [fgcEvents, setFgcEvents] = useState<FgcGuaranteeEvent[]>([]);
+  const [holders, setHolders] = useState<Holder[]>([]);
+  const [selectedHolder, setSelectedHolder] = useState<string>(ALL_HOLDERS);
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'investments' | 'cashflow' | 'simulations' | 'fgc' | 'settings'>('dashboard');
   const [editingInvestment, setEditingInvestment] = useState<Investment | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -29,38 +84,97 @@ const App: React.FC = () => {
   const [sortField, setSortField] = useState<'conglomerate' | 'bank' | 'amount' | 'startDate' | 'dueDate' | 'netFutureValue'>('dueDate');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [showUpdates, setShowUpdates] = useState(false);
+  const [redemptionInvestment, setRedemptionInvestment] = useState<Investment | null>(null);
+  const [partialRedemptionInvestment, setPartialRedemptionInvestment] = useState<Investment | null>(null);
+  const [historyInvestment, setHistoryInvestment] = useState<Investment | null>(null);
+  const [allocationFilter, setAllocationFilter] = useState<AllocationFilter | null>(null);
+  const [showImport, setShowImport] = useState(false);
 
-  // Carregar dados do Supabase ao iniciar
+  // Sessão do Supabase Auth (também recebe o retorno do link mágico)
   useEffect(() => {
-    const loadData = async () => {
-      setIsLoading(true);
-      try {
-        const [investmentsData, ratesData] = await Promise.all([
-          fetchInvestments(),
-          fetchMarketRates()
-        ]);
-        setInvestments(investmentsData);
-        setMarketRates(ratesData);
-      } catch (error) {
-        console.error('Erro ao carregar dados:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    loadData();
+    if (!AUTH_ENABLED) {
+      setIsAuthLoading(false);
+      return;
+    }
+    getSession().then(current => {
+      setSession(current);
+      setIsAuthLoading(false);
+    });
+    return onSessionChange(setSession);
   }, []);
 
-  // Salvar taxas de mercado quando alteradas
-  const handleMarketRatesChange = useCallback(async (newRates: MarketRates) => {
-    setIsRecalculating(true);
-    setMarketRates(newRates);
-    await saveMarketRates(newRates);
+  const userId = AUTH_ENABLED ? session?.user.id : LOCAL_USER_ID;
+
+  // Carrega os dados do usuário; o que falhar mantém o estado atual e gera um único aviso com "Tentar novamente"
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    const [investmentsResult, ratesResult, rateHistoryResult, rateCurveResult, fgcEventsResult, holdersResult] = await Promise.all([
+      fetchInvestments(),
+      fetchMarketRates(),
+      fetchRateHistory(),
+      fetchRateCurve(),
+      fetchGuaranteeEvents(),
+      fetchHolders()
+    ]);
+
+    if (!isFailure(investmentsResult)) setInvestments(investmentsResult.data);
+    if (!isFailure(fgcEventsResult)) setFgcEvents(fgcEventsResult.data);
+    if (!isFailure(holdersResult)) setHolders(holdersResult.data);
+
+    // Sem taxas carregadas, os cálculos seguem com as padrão e o banner avisa
+    if (isFailure(ratesResult)) {
+      setRatesSource('failed');
+      setMarketRates({ ...DEFAULT_MARKET_RATES });
+    } else {
+      setRatesSource(ratesResult.data.usingDefaults ? 'defaults' : 'saved');
+      setMarketRates({
+        ...ratesResult.data.rates,
+        history: isFailure(rateHistoryResult) ? [] : rateHistoryResult.data,
+        curve: isFailure(rateCurveResult) ? [] : rateCurveResult.data,
+      });
+    }
+
+    const results: ServiceResult<unknown>[] = [investmentsResult, ratesResult, rateHistoryResult, rateCurveResult, fgcEventsResult, holdersResult];
+    const failure = results.find(isFailure);
+    if (failure) reportFailure(failure, () => loadData());
+
+    setIsLoading(false);
+  }, []);
+
+  // Carregar os dados do usuário ao entrar; limpa tudo ao sair
+  useEffect(() => {
+    if (!userId) {
+      setInvestments([]);
+      setMarketRates({ ...DEFAULT_MARKET_RATES });
+      setRatesSource('saved');
+      setFgcEvents([]);
+      setHolders([]);
+      setSelectedHolder(ALL_HOLDERS);
+      return;
+    }
+    loadData();
+  }, [userId, loadData]);
+
+  // Após resolver um conflito da fila offline, recarrega a versão que prevaleceu
+  const reloadInvestments = async () => {
+    const result = await fetchInvestments();
+    if (!reportFailure(result, reloadInvestments)) setInvestments(result.data);
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    setActiveTab('dashboard');
+  };
 
-    // Recalcular todos os investimentos com as novas taxas
+  // Recalcular todos os investimentos com as taxas informadas e persistir em lote
+  const recalculateInvestments = useCallback(async (rates: MarketRates) => {
+    // Os da lixeira são recalculados ao serem restaurados
     const updatedInvestments = investments.map(inv => {
-      const { gross, net } = calculateFutureValue(inv, newRates);
+      if (isInTrash(inv)) return inv;
+      const { gross, net } = calculateFutureValue(inv, rates);
       return {
         ...inv,
+        incomeTax: resolveIncomeTax(inv).rate,
         futureValue: gross,
         netFutureValue: net
       };
@@ -69,26 +183,111 @@ const App: React.FC = () => {
     // Atualizar no estado local
     setInvestments(updatedInvestments);
 
-    // Salvar no banco em lote (para performance)
+    // Salvar no banco em lote só as posições cujos valores mudaram (diferença de centavos)
+    const changed = updatedInvestments.filter((inv, index) => {
+      const previous = investments[index];
+      return !isInTrash(inv) && (
+        inv.incomeTax !== previous.incomeTax ||
+        Math.abs(inv.futureValue - previous.futureValue) >= 0.005 ||
+        Math.abs(inv.netFutureValue - previous.netFutureValue) >= 0.005
+      );
+    });
+    if (changed.length === 0) return;
+
+    const persist = async () => {
+      reportFailure(await updateInvestmentValues(changed), persist);
+    };
+    await persist();
+  }, [investments]);
+
+  // Salvar a projeção de taxas quando alterada (o histórico realizado não muda)
+  const handleMarketRatesChange = useCallback(async (newRates: MarketRates) => {
+    setIsRecalculating(true);
+    const result = await saveMarketRates(newRates);
+    if (!reportFailure(result, () => handleMarketRatesChange(newRates))) setRatesSource('saved');
+    setMarketRates(newRates);
+
     try {
-      await updateInvestmentValues(updatedInvestments);
-    } catch (error) {
-      console.error('Erro ao atualizar valores futuros no banco:', error);
+      await recalculateInvestments(newRates);
     } finally {
       setIsRecalculating(false);
     }
-  }, [investments]);
+  }, [recalculateInvestments]);
+
+  const handleSaveRateHistory = async (entries: Omit<RateHistoryEntry, 'id'>[]) => {
+    const result = await saveRateHistoryEntries(entries);
+    if (reportFailure(result, () => handleSaveRateHistory(entries))) return;
+    if (result.data.length === 0) return;
+
+    const newRates = { ...marketRates, history: mergeRateHistory(marketRates.history || [], result.data) };
+    setMarketRates(newRates);
+    setRatesSource('saved');
+    notify('success', `${result.data.length} ${result.data.length === 1 ? 'taxa salva' : 'taxas salvas'} no histórico.`);
+    await recalculateInvestments(newRates);
+  };
+
+  const removeRateHistoryEntry = async (id: string) => {
+    const result = await deleteRateHistoryEntry(id);
+    if (reportFailure(result, () => removeRateHistoryEntry(id))) return;
+    const newRates = { ...marketRates, history: (marketRates.history || []).filter(e => e.id !== id) };
+    setMarketRates(newRates);
+    await recalculateInvestments(newRates);
+  };
+
+  const handleDeleteRateHistory = async (id: string) => {
+    if (confirm('Deseja realmente remover esta taxa do histórico?')) {
+      await removeRateHistoryEntry(id);
+    }
+  };
 
+  const handleSaveRateCurve = async (curve: RateCurveVertex[]) => {
+    const result = await saveRateCurve(curve);
+    if (reportFailure(result, () => handleSaveRateCurve(curve))) return;
+    const newRates = { ...marketRates, curve };
+    setMarketRates(newRates);
+    notify('success', 'Curva de juros salva.');
+    await recalculateInvestments(newRates);
+  };
+
+  // Em caso de falha o formulário continua aberto, com os dados preenchidos
   const handleAddInvestment = async (inv: Investment) => {
     setIsSaving(true);
-    const saved = await addInvestment(inv);
-    if (saved) {
-      setInvestments(prev => [...prev, saved]);
-    }
+    const result = await addInvestment(inv);
     setIsSaving(false);
+    if (reportFailure(result, () => handleAddInvestment(inv))) return;
+    setInvestments(prev => [...prev, result.data]);
     setActiveTab('investments');
   };
 
+  // Importação em lote: cada linha confirmada passa por addInvestment; as que falharem podem ser reenviadas
+  const handleImportInvestments = async (imported: Investment[]) => {
+    setIsSaving(true);
+    const saved: Investment[] = [];
+    const failed: Investment[] = [];
+    let firstFailure: ServiceResult<Investment> | null = null;
+    for (const inv of imported) {
+      const result = await addInvestment(inv);
+      if (isFailure(result)) {
+        failed.push(inv);
+        firstFailure = firstFailure || result;
+      } else {
+        saved.push(result.data);
+      }
+    }
+    setInvestments(prev => [...prev, ...saved]);
+    setIsSaving(false);
+    setShowImport(false);
+
+    if (firstFailure && isFailure(firstFailure)) {
+      notify('error', `${failed.length} de ${imported.length} aplicações não foram importadas. ${firstFailure.error.message}`, {
+        label: 'Tentar novamente',
+        run: () => handleImportInvestments(failed),
+      });
+    } else if (saved.length > 0) {
+      notify('success', `${saved.length} ${saved.length === 1 ? 'aplicação importada' : 'aplicações importadas'}.`);
+    }
+  };
+
   const handleUpdateInvestment = async (inv: Investment) => {
     if (!inv) {
       setEditingInvestment(null);
@@ -96,50 +295,212 @@ const App: React.FC = () => {
     }
 
     setIsSaving(true);
-    const updated = await updateInvestment(inv);
-    if (updated) {
-      setInvestments(prev => prev.map(i => i.id === updated.id ? updated : i));
-      setEditingInvestment(null);
-    }
+    const result = await updateInvestment(inv);
     setIsSaving(false);
+    if (reportFailure(result, () => handleUpdateInvestment(inv))) return;
+    const updated = result.data;
+    setInvestments(prev => prev.map(i => i.id === updated.id ? updated : i));
+    setEditingInvestment(null);
+  };
+
+  const removeInvestment = async (id: string) => {
+    const result = await deleteInvestment(id);
+    if (reportFailure(result, () => removeInvestment(id))) return;
+    setInvestments(prev => prev.filter(i => i.id !== id));
   };
 
+  // Move para a lixeira; o aviso oferece "Desfazer" no lugar da confirmação
   const handleDeleteInvestment = async (id: string) => {
-    if (confirm('Deseja realmente remover este investimento?')) {
-      const success = await deleteInvestment(id);
-      if (success) {
-        setInvestments(prev => prev.filter(i => i.id !== id));
-      }
+    const inv = investments.find(i => i.id === id);
+    if (!inv) return;
+    const result = await trashInvestment(inv);
+    if (reportFailure(result, () => handleDeleteInvestment(id))) return;
+    const trashed = result.data;
+    setInvestments(prev => prev.map(i => i.id === trashed.id ? trashed : i));
+    notify('info', `${inv.title} ${inv.bank} movido para a lixeira.`, { label: 'Desfazer', run: () => handleRestoreFromTrash(trashed) });
+  };
+
+  // Volta da lixeira com os valores projetados recalculados pelas taxas atuais
+  const handleRestoreFromTrash = async (inv: Investment) => {
+    const { gross, net } = calculateFutureValue(inv, marketRates);
+    const result = await restoreFromTrash({ ...inv, futureValue: gross, netFutureValue: net });
+    if (reportFailure(result, () => handleRestoreFromTrash(inv))) return;
+    const restored = result.data;
+    setInvestments(prev => prev.map(i => i.id === restored.id ? restored : i));
+    notify('success', `${inv.title} ${inv.bank} restaurado.`);
+  };
+
+  const handlePurgeInvestments = async (items: Investment[]) => {
+    for (const inv of items) {
+      await removeInvestment(inv.id);
     }
   };
 
+  // Encerra a posição (vencimento, resgate ou garantia do FGC) com o valor efetivamente recebido
+  const handleCloseInvestment = async (inv: Investment, status: Exclude<InvestmentStatus, 'active'>, redemption?: InvestmentRedemption) => {
+    const result = await updateInvestment(closeInvestment(inv, status, redemption));
+    if (reportFailure(result, () => handleCloseInvestment(inv, status, redemption))) return;
+    const updated = result.data;
+    setInvestments(prev => prev.map(i => i.id === updated.id ? updated : i));
+    setRedemptionInvestment(null);
+    notify('success', `${inv.title} ${inv.bank} movido para as posições encerradas (${INVESTMENT_STATUS_LABELS[status].toLowerCase()}).`);
+  };
+
+  // Resgates parciais reduzem o principal restante; os valores projetados são recalculados sobre o saldo
+  const handleSavePartialRedemptions = async (inv: Investment, partialRedemptions: PartialRedemption[]) => {
+    const next = { ...inv, partialRedemptions };
+    const { gross, net } = calculateFutureValue(next, marketRates);
+    const result = await updateInvestment({ ...next, futureValue: gross, netFutureValue: net });
+    if (reportFailure(result, () => handleSavePartialRedemptions(inv, partialRedemptions))) return;
+    const updated = result.data;
+    setInvestments(prev => prev.map(i => i.id === updated.id ? updated : i));
+    setPartialRedemptionInvestment(updated);
+    notify('success', `Saldo de ${inv.title} ${inv.bank}: ${formatCurrency(getRemainingPrincipal(updated))}.`);
+  };
+
+  // Volta para uma versão do histórico; os valores projetados são recalculados com as taxas atuais
+  const handleRestoreVersion = async (inv: Investment, version: Investment) => {
+    const restored: Investment = { ...version, id: inv.id, createdAt: inv.createdAt, updatedAt: inv.updatedAt, deletedAt: undefined };
+    const { gross, net } = calculateFutureValue(restored, marketRates);
+    const result = await restoreInvestmentVersion({ ...restored, futureValue: gross, netFutureValue: net });
+    if (reportFailure(result, () => handleRestoreVersion(inv, version))) return;
+    const updated = result.data;
+    setInvestments(prev => prev.map(i => i.id === updated.id ? updated : i));
+    setHistoryInvestment(updated);
+    notify('success', `${updated.title} ${updated.bank} restaurado para a versão escolhida.`);
+  };
+
+  const handleReopenInvestment = async (inv: Investment) => {
+    if (!confirm('Reabrir esta posição? O resgate registrado será descartado.')) return;
+    const result = await updateInvestment(reopenInvestment(inv));
+    if (reportFailure(result, () => handleReopenInvestment(inv))) return;
+    const updated = result.data;
+    setInvestments(prev => prev.map(i => i.id === updated.id ? updated : i));
+  };
+
+  // Valor atual (na curva) de cada posição, calculado até hoje
+  const currentValues = useMemo(() => {
+    const values: Record<string, CalculationResult> = {};
+    investments.forEach(inv => {
+      values[inv.id] = calculateCurrentValue(inv, marketRates);
+    });
+    return values;
+  }, [investments, marketRates]);
+
+  const handleAddGuaranteeEvent = async (event: Omit<FgcGuaranteeEvent, 'id' | 'createdAt'>) => {
+    const result = await addGuaranteeEvent(event);
+    if (reportFailure(result, () => handleAddGuaranteeEvent(event))) return;
+    const saved = result.data;
+    setFgcEvents(prev => [saved, ...prev].sort((a, b) => b.eventDate.localeCompare(a.eventDate)));
+  };
+
+  const removeGuaranteeEvent = async (id: string) => {
+    const result = await deleteGuaranteeEvent(id);
+    if (reportFailure(result, () => removeGuaranteeEvent(id))) return;
+    setFgcEvents(prev => prev.filter(e => e.id !== id));
+  };
+
+  const handleDeleteGuaranteeEvent = async (id: string) => {
+    if (confirm('Deseja realmente remover este registro de garantia?')) {
+      await removeGuaranteeEvent(id);
+    }
+  };
+
+  const handleAddHolder = async (holder: Omit<Holder, 'id' | 'createdAt'>) => {
+    const result = await addHolder(holder);
+    if (reportFailure(result, () => handleAddHolder(holder))) return;
+    const saved = result.data;
+    setHolders(prev => [...prev, saved]);
+  };
+
+  const removeHolder = async (id: string) => {
+    const result = await deleteHolder(id);
+    if (reportFailure(result, () => removeHolder(id))) return;
+    setHolders(prev => prev.filter(h => h.id !== id));
+    setSelectedHolder(current => current === id ? ALL_HOLDERS : current);
+  };
+
+  const handleDeleteHolder = async (id: string) => {
+    const inUse = investments.filter(inv => getHolderFraction(inv, id) > 0).length;
+    if (inUse > 0) {
+      alert(`Este titular participa de ${inUse} aplicação(ões). Altere a titularidade delas antes de removê-lo.`);
+      return;
+    }
+    if (confirm('Deseja realmente remover este titular?')) {
+      await removeHolder(id);
+    }
+  };
+
+  // A lixeira fica fora de tudo: totais, FGC, exportação e histórico de encerradas
+  const keptInvestments = useMemo(() => investments.filter(inv => !isInTrash(inv)), [investments]);
+  const trashedInvestments = useMemo(() => investments.filter(isInTrash), [investments]);
+
+  // Posições encerradas ficam fora dos totais, projeções e exposição ao FGC
+  const openInvestments = useMemo(() => keptInvestments.filter(isOpenPosition), [keptInvestments]);
+
+  // Aplicações do titular selecionado (contas conjuntas aparecem para todos os participantes)
+  const visibleInvestments = useMemo(() => {
+    return openInvestments.filter(inv => getHolderFraction(inv, selectedHolder) > 0);
+  }, [openInvestments, selectedHolder]);
+
+  const closedInvestments = useMemo(() => {
+    return keptInvestments.filter(inv => !isOpenPosition(inv) && getHolderFraction(inv, selectedHolder) > 0);
+  }, [keptInvestments, selectedHolder]);
+
+  const holderPortfolio = useMemo(() => getHolderPortfolio(openInvestments, selectedHolder), [openInvestments, selectedHolder]);
+
+  // Taxas médias, prazo, rentabilidade anualizada e comparação com os índices (na participação do titular)
+  const analytics = useMemo(() => analyzePortfolio(holderPortfolio, marketRates), [holderPortfolio, marketRates]);
+
+  const hasUnassignedInvestments = holders.length > 0 && keptInvestments.some(inv => getHolderFraction(inv, UNASSIGNED_HOLDER) > 0);
+
+  // Totais consideram só a participação do titular selecionado
   const stats = useMemo(() => {
-    const totalInvested = investments.reduce((acc, curr) => acc + curr.amount, 0);
-    const totalFutureNet = investments.reduce((acc, curr) => acc + (curr.netFutureValue || 0), 0);
-    const nextDueDate = investments.length > 0
-      ? [...investments].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())[0].dueDate
+    const share = (inv: Investment) => getHolderFraction(inv, selectedHolder);
+    const totalInvested = visibleInvestments.reduce((acc, curr) => acc + getRemainingPrincipal(curr) * share(curr), 0);
+    const totalFutureNet = visibleInvestments.reduce((acc, curr) => acc + (curr.netFutureValue || 0) * share(curr), 0);
+    const totalCurrentGross = visibleInvestments.reduce((acc, curr) => acc + (currentValues[curr.id]?.gross || 0) * share(curr), 0);
+    const totalCurrentNet = visibleInvestments.reduce((acc, curr) => acc + (currentValues[curr.id]?.net || 0) * share(curr), 0);
+    const nextDueDate = visibleInvestments.length > 0
+      ? [...visibleInvestments].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())[0].dueDate
       : null;
 
-    return { totalInvested, totalFutureNet, nextDueDate };
-  }, [investments]);
+    // Ganho efetivo (resgates parciais e posições encerradas), separado do projetado
+    const realizedGain = [...visibleInvestments, ...closedInvestments].reduce((acc, curr) => acc + getRealizedGain(curr) * share(curr), 0);
 
-  const fgcExposure = useMemo(() => {
-    const banks: Record<string, number> = {};
-    investments.forEach(inv => {
-      // Usa o conglomerado se houver, senão usa o próprio banco
-      const institutionName = (inv.conglomerate && inv.conglomerate.trim() !== '')
-        ? inv.conglomerate.trim().toUpperCase()
-        : inv.bank.trim().toUpperCase();
+    return { totalInvested, totalFutureNet, totalCurrentGross, totalCurrentNet, nextDueDate, realizedGain };
+  }, [visibleInvestments, closedInvestments, currentValues, selectedHolder]);
 
-      banks[institutionName] = (banks[institutionName] || 0) + (inv.futureValue || 0);
-    });
-    return Object.entries(banks).sort((a, b) => b[1] - a[1]);
-  }, [investments]);
+  // Apenas títulos cobertos pelo FGC entram no monitor
+  const fgcUncoveredInvestments = useMemo(() => visibleInvestments.filter(inv => !isFgcCovered(inv)), [visibleInvestments]);
+
+  // Limites por CPF: cada titular tem seus cartões por conglomerado e seu limite global
+  const fgcHolderGroups = useMemo(() => {
+    const groups = getFgcExposureByHolder(openInvestments)
+      .filter(group => selectedHolder === ALL_HOLDERS || group.holderId === selectedHolder)
+      .map(group => ({
+        ...group,
+        coverage: getGlobalCoverage(fgcEvents.filter(e => (e.holderId || UNASSIGNED_HOLDER) === group.holderId)),
+      }));
+
+    if (groups.length === 0) {
+      const holderId = selectedHolder === ALL_HOLDERS ? UNASSIGNED_HOLDER : selectedHolder;
+      groups.push({
+        holderId,
+        institutions: [],
+        total: 0,
+        coverage: getGlobalCoverage(fgcEvents.filter(e => (e.holderId || UNASSIGNED_HOLDER) === holderId)),
+      });
+    }
+
+    const order = (holderId: string) => holderId === UNASSIGNED_HOLDER ? holders.length : holders.findIndex(h => h.id === holderId);
+    return groups.sort((a, b) => order(a.holderId) - order(b.holderId));
+  }, [openInvestments, fgcEvents, holders, selectedHolder]);
 
   const sortedInvestments = useMemo(() => {
-    return [...investments].sort((a, b) => {
-      let aValue: any = a[sortField];
-      let bValue: any = b[sortField];
+    return visibleInvestments.filter(inv => matchesAllocationFilter(inv, allocationFilter)).sort((a, b) => {
+      let aValue: any = sortField === 'amount' ? getRemainingPrincipal(a) : a[sortField];
+      let bValue: any = sortField === 'amount' ? getRemainingPrincipal(b) : b[sortField];
 
       if (typeof aValue === 'string') aValue = aValue.toLowerCase();
       if (typeof bValue === 'string') bValue = bValue.toLowerCase();
@@ -153,21 +514,17 @@ const App: React.FC = () => {
       if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [investments, sortField, sortDirection]);
-
-  const chartData = useMemo(() => {
-    const byType: Record<string, number> = {};
-    investments.forEach(inv => {
-      byType[inv.type] = (byType[inv.type] || 0) + inv.amount;
-    });
-    return Object.entries(byType).map(([name, value]) => ({ name, value }));
-  }, [investments]);
+  }, [visibleInvestments, allocationFilter, sortField, sortDirection]);
 
-  const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'];
+  // Fatia clicada no gráfico de alocação: abre a lista já filtrada
+  const handleSelectAllocationSlice = (filter: AllocationFilter) => {
+    setAllocationFilter(filter);
+    setActiveTab('investments');
+  };
 
   const handleExportExcel = () => {
     // Definir dados com valores numéricos puros para o Excel tratar corretamente
-    const exportData = investments.map(inv => ({
+    const exportData = keptInvestments.map(inv => ({
       'Corretora': inv.broker,
       'Conglomerado': inv.conglomerate || inv.bank,
       'Banco Emissor': inv.bank,
@@ -178,9 +535,17 @@ const App: React.FC = () => {
       'Taxa de Juros (%)': inv.interestRate / 100,
       'Data de Aplicação': new Date(inv.startDate),
       'Vencimento': new Date(inv.dueDate),
-      'IR Estimado (%)': inv.incomeTax / 100,
+      'IR (%)': inv.incomeTax / 100,
+      'Valor Bruto Atual': currentValues[inv.id]?.gross || 0,
+      'Valor Líquido Atual': currentValues[inv.id]?.net || 0,
       'Valor Bruto Futuro': inv.futureValue,
-      'Valor Líquido Futuro': inv.netFutureValue
+      'Valor Líquido Futuro': inv.netFutureValue,
+      'Situação': INVESTMENT_STATUS_LABELS[getInvestmentStatus(inv)],
+      'Data do Resgate': inv.redemption ? new Date(inv.redemption.date) : null,
+      'Valor Líquido Recebido': inv.redemption ? inv.redemption.netAmount : null,
+      'Ganho Realizado': inv.redemption ? getRealizedGain(inv) : null,
+      'Liquidez': describeLiquidity(inv),
+      'Principal Restante': getRemainingPrincipal(inv)
     }));
 
     const worksheet = XLSX.utils.json_to_sheet(exportData);
@@ -195,8 +560,8 @@ const App: React.FC = () => {
     const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
 
     for (let R = range.s.r + 1; R <= range.e.r; ++R) {
-      // Colunas de Moeda: E (4), K (10), L (11)
-      [4, 10, 11].forEach(C => {
+      // Colunas de Moeda: F (5), L (11), M (12), N (13), O (14), R (17), S (18), U (20)
+      [5, 11, 12, 13, 14, 17, 18, 20].forEach(C => {
         const cell = worksheet[XLSX.utils.encode_cell({ c: C, r: R })];
         if (cell) {
           cell.t = 'n'; // Garante que é número
@@ -204,8 +569,8 @@ const App: React.FC = () => {
         }
       });
 
-      // Colunas de Porcentagem: G (6), J (9)
-      [6, 9].forEach(C => {
+      // Colunas de Porcentagem: H (7), K (10)
+      [7, 10].forEach(C => {
         const cell = worksheet[XLSX.utils.encode_cell({ c: C, r: R })];
         if (cell) {
           cell.t = 'n';
@@ -213,8 +578,8 @@ const App: React.FC = () => {
         }
       });
 
-      // Colunas de Data: H (7), I (8)
-      [7, 8].forEach(C => {
+      // Colunas de Data: I (8), J (9), Q (16)
+      [8, 9, 16].forEach(C => {
         const cell = worksheet[XLSX.utils.encode_cell({ c: C, r: R })];
         if (cell) {
           cell.t = 'd';
@@ -227,7 +592,9 @@ const App: React.FC = () => {
     worksheet['!cols'] = [
       { wch: 22 }, { wch: 22 }, { wch: 22 }, { wch: 10 }, { wch: 15 },
       { wch: 18 }, { wch: 10 }, { wch: 15 }, { wch: 15 },
-      { wch: 15 }, { wch: 15 }, { wch: 18 }, { wch: 18 }
+      { wch: 15 }, { wch: 15 }, { wch: 18 }, { wch: 18 },
+      { wch: 18 }, { wch: 18 }, { wch: 24 }, { wch: 15 },
+      { wch: 18 }, { wch: 18 }, { wch: 22 }, { wch: 18 }
     ];
 
     const workbook = XLSX.utils.book_new();
@@ -236,6 +603,18 @@ const App: React.FC = () => {
     XLSX.writeFile(workbook, `Lidia_Investe_Ativos_${new Date().toISOString().split('T')[0]}.xlsx`);
   };
 
+  if (isAuthLoading) {
+    return (
+      <div className="flex h-screen bg-slate-50 items-center justify-center">
+        <Loader2 className="w-10 h-10 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (AUTH_ENABLED && !session) {
+    return <LoginScreen />;
+  }
+
   // Tela de loading
   if (isLoading) {
     return (
@@ -265,9 +644,22 @@ const App: React.FC = () => {
         <nav className="flex-1 p-4 space-y-2">
           <button onClick={() => setActiveTab('dashboard')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl font-semibold transition-all ${activeTab === 'dashboard' ? 'bg-blue-50 text-blue-600' : 'text-slate-500 hover:bg-slate-50'}`}><LayoutDashboard className="w-5 h-5" /> Dashboard</button>
           <button onClick={() => setActiveTab('investments')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl font-semibold transition-all ${activeTab === 'investments' ? 'bg-blue-50 text-blue-600' : 'text-slate-500 hover:bg-slate-50'}`}><List className="w-5 h-5" /> Investimentos</button>
+          <button onClick={() => setActiveTab('cashflow')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl font-semibold transition-all ${activeTab === 'cashflow' ? 'bg-blue-50 text-blue-600' : 'text-slate-500 hover:bg-slate-50'}`}><CalendarDays className="w-5 h-5" /> Fluxo de Caixa</button>
+          <button onClick={() => setActiveTab('simulations')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl font-semibold transition-all ${activeTab === 'simulations' ? 'bg-blue-50 text-blue-600' : 'text-slate-500 hover:bg-slate-50'}`}><FlaskConical className="w-5 h-5" /> Simulações</button>
           <button onClick={() => setActiveTab('fgc')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl font-semibold transition-all ${activeTab === 'fgc' ? 'bg-blue-50 text-blue-600' : 'text-slate-500 hover:bg-slate-50'}`}><ShieldCheck className="w-5 h-5" /> Monitor FGC</button>
           <button onClick={() => setActiveTab('settings')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl font-semibold transition-all ${activeTab === 'settings' ? 'bg-blue-50 text-blue-600' : 'text-slate-500 hover:bg-slate-50'}`}><Settings className="w-5 h-5" /> Configurações</button>
         </nav>
+
+        <div className="p-4 border-t border-slate-100">
+          {session ? (
+            <>
+              <p className="px-4 text-[11px] text-slate-400 truncate mb-2" title={session.user.email}>{session.user.email}</p>
+              <button onClick={handleSignOut} className="w-full flex items-center gap-3 px-4 py-3 rounded-xl font-semibold text-slate-500 hover:bg-red-50 hover:text-red-600 transition-all"><LogOut className="w-5 h-5" /> Sair</button>
+            </>
+          ) : (
+            <p className="px-4 text-[11px] text-slate-400">Modo local: os dados ficam salvos neste navegador.</p>
+          )}
+        </div>
       </aside>
 
       {/* Header Mobile & Desktop Top Bar */}
@@ -286,12 +678,32 @@ const App: React.FC = () => {
             <h1 className="text-xl font-black text-slate-800 tracking-tight">
               {activeTab === 'dashboard' ? 'Dashboard' :
                 activeTab === 'investments' ? 'Investimentos' :
-                  activeTab === 'fgc' ? 'Monitor FGC' : 'Configurações'}
+                  activeTab === 'cashflow' ? 'Fluxo de Caixa' :
+                    activeTab === 'simulations' ? 'Simulações' :
+                      activeTab === 'fgc' ? 'Monitor FGC' : 'Configurações'}
             </h1>
           </div>
         </div>
 
         <div className="flex items-center gap-3 relative">
+          {holders.length > 0 && (
+            <select
+              value={selectedHolder}
+              onChange={e => setSelectedHolder(e.target.value)}
+              className="p-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 focus:ring-2 focus:ring-blue-500 outline-none"
+              title="Filtrar por titular"
+            >
+              <option value={ALL_HOLDERS}>Todos os titulares</option>
+              {holders.map(holder => <option key={holder.id} value={holder.id}>{holder.name}</option>)}
+              {hasUnassignedInvestments && <option value={UNASSIGNED_HOLDER}>Sem titular</option>}
+            </select>
+          )}
+          {AUTH_ENABLED && session && <SyncStatusIndicator onConflictResolved={reloadInvestments} />}
+          {session && (
+            <button onClick={handleSignOut} className="lg:hidden p-2 rounded-xl text-slate-400 hover:text-red-600 hover:bg-red-50 transition-all" title="Sair">
+              <LogOut className="w-5 h-5" />
+            </button>
+          )}
           <button
             onClick={() => setShowUpdates(!showUpdates)}
             className={`p-2 rounded-xl transition-all relative ${showUpdates ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:text-blue-600 hover:bg-blue-50'}`}
@@ -369,29 +781,28 @@ const App: React.FC = () => {
 
       {/* Main Content */}
       <main className="flex-1 overflow-y-auto p-4 lg:p-10 pb-24 lg:pb-10">
+        {ratesSource !== 'saved' && (
+          <DefaultRatesBanner
+            source={ratesSource}
+            onRetry={loadData}
+            onConfigure={() => setActiveTab('settings')}
+          />
+        )}
         {activeTab === 'dashboard' ? (
           <div className="space-y-8">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4 lg:gap-6">
               <StatsCard title="Total Investido" value={formatCurrency(stats.totalInvested)} icon={<Wallet />} color="bg-blue-600" />
-              <StatsCard title="Valor Líquido Futuro" value={formatCurrency(stats.totalFutureNet)} icon={<TrendingUp />} color="bg-emerald-600" trend={`${stats.totalInvested > 0 ? (((stats.totalFutureNet / stats.totalInvested) - 1) * 100).toFixed(1) : '0'}%`} />
+              <StatsCard title="Valor Atual Líquido" value={formatCurrency(stats.totalCurrentNet)} icon={<PiggyBank />} color="bg-teal-600" trend={`${stats.totalInvested > 0 ? (((stats.totalCurrentNet / stats.totalInvested) - 1) * 100).toFixed(1) : '0'}%`} />
+              <StatsCard title="Valor Líquido Futuro" value={formatCurrency(stats.totalFutureNet)} icon={<TrendingUp />} color="bg-emerald-600" trend={`${analytics.annualNetYield.toFixed(1)}% a.a.`} />
               <StatsCard title="Próximo Vencimento" value={stats.nextDueDate ? formatDate(stats.nextDueDate) : 'Nenhum'} icon={<Calendar />} color="bg-orange-600" />
-              <StatsCard title="Ativos" value={investments.length.toString()} icon={<List />} color="bg-indigo-600" />
+              <StatsCard title="Ativos" value={visibleInvestments.length.toString()} icon={<List />} color="bg-indigo-600" />
+              <StatsCard title="Ganho Realizado" value={formatCurrency(stats.realizedGain)} icon={<Archive />} color="bg-slate-600" />
             </div>
 
+            <PortfolioAnalyticsPanel analytics={analytics} />
+
             <div className="grid grid-cols-1 gap-6 lg:gap-8">
-              <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 min-h-[350px]">
-                <h3 className="text-lg font-bold text-slate-800 mb-6">Alocação por Indexador</h3>
-                <div className="h-[280px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie data={chartData} cx="50%" cy="50%" innerRadius={80} outerRadius={120} paddingAngle={5} dataKey="value">
-                        {chartData.map((_, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
-                      </Pie>
-                      <RechartsTooltip formatter={(val: number) => formatCurrency(val)} contentStyle={{ borderRadius: '12px', border: 'none' }} />
-                    </PieChart>
-                  </ResponsiveContainer>
-                </div>
-              </div>
+              <AllocationChart investments={visibleInvestments} selectedHolder={selectedHolder} onSelectSlice={handleSelectAllocationSlice} />
             </div>
           </div>
         ) : activeTab === 'investments' ? (
@@ -401,20 +812,41 @@ const App: React.FC = () => {
               onUpdate={handleUpdateInvestment}
               marketRates={marketRates}
               editingInvestment={editingInvestment}
+              holders={holders}
             />
             <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
               <div className="p-5 border-b border-slate-100 flex items-center justify-between">
-                <h3 className="text-lg font-bold text-slate-800">
-                  Meus Ativos <span className="ml-2 text-slate-400 font-medium">({investments.length})</span>
-                </h3>
-                <button
-                  onClick={handleExportExcel}
-                  className="flex items-center gap-2 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-xl text-xs font-bold hover:bg-emerald-100 transition-all active:scale-95"
-                  title="Exportar para Excel"
-                >
-                  <Download className="w-4 h-4" />
-                  <span className="hidden sm:inline">Exportar Planilha</span>
-                </button>
+                <div className="flex flex-wrap items-center gap-3">
+                  <h3 className="text-lg font-bold text-slate-800">
+                    Meus Ativos <span className="ml-2 text-slate-400 font-medium">({sortedInvestments.length})</span>
+                  </h3>
+                  {allocationFilter && (
+                    <span className="flex items-center gap-1 pl-3 pr-1 py-1 bg-blue-50 text-blue-700 rounded-full text-[11px] font-bold">
+                      {ALLOCATION_DIMENSION_LABELS[allocationFilter.dimension]}: {allocationFilter.key}
+                      <button onClick={() => setAllocationFilter(null)} className="p-0.5 rounded-full hover:bg-blue-100" title="Limpar filtro">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-600 rounded-xl text-xs font-bold hover:bg-blue-100 transition-all active:scale-95"
+                    title="Importar de planilha"
+                  >
+                    <Upload className="w-4 h-4" />
+                    <span className="hidden sm:inline">Importar Planilha</span>
+                  </button>
+                  <button
+                    onClick={handleExportExcel}
+                    className="flex items-center gap-2 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-xl text-xs font-bold hover:bg-emerald-100 transition-all active:scale-95"
+                    title="Exportar para Excel"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span className="hidden sm:inline">Exportar Planilha</span>
+                  </button>
+                </div>
               </div>
               <div className="overflow-x-auto scrollbar-hide">
                 <table className="w-full text-left min-w-[700px]">
@@ -510,6 +942,7 @@ const App: React.FC = () => {
                           ) : <ArrowUpDown className="w-3 h-3 opacity-30" />}
                         </div>
                       </th>
+                      <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Valor Atual</th>
                       <th
                         className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest cursor-pointer hover:bg-slate-100 transition-colors"
                         onClick={() => {
@@ -533,7 +966,7 @@ const App: React.FC = () => {
                   </thead>
                   <tbody className="divide-y divide-slate-100">
                     {sortedInvestments.length === 0 ? (
-                      <tr><td colSpan={6} className="px-6 py-12 text-center text-slate-400 italic text-sm">Nenhum investimento cadastrado.</td></tr>
+                      <tr><td colSpan={8} className="px-6 py-12 text-center text-slate-400 italic text-sm">Nenhum investimento cadastrado.</td></tr>
                     ) : (
                       sortedInvestments.map(inv => (
                         <tr key={inv.id} className="hover:bg-slate-50/50 transition-colors">
@@ -547,16 +980,50 @@ const App: React.FC = () => {
                               <div className="w-8 h-8 rounded-lg bg-blue-100 text-blue-600 flex items-center justify-center font-bold text-[10px] shrink-0">{inv.title}</div>
                               <div>
                                 <div className="text-sm font-bold text-slate-800 truncate">{inv.bank}</div>
-                                <div className="text-[10px] text-slate-400 uppercase font-bold">{inv.type}</div>
+                                <div className="text-[10px] text-slate-400 uppercase font-bold">{inv.type}{isTesouroTitle(inv.title) ? ` · ${inv.quantity} títulos` : ''}</div>
+                                {holders.length > 0 && <div className="text-[10px] text-indigo-500 font-bold">{describeHolders(holders, inv)}</div>}
                               </div>
                             </div>
                           </td>
-                          <td className="px-6 py-4"><div className="text-sm font-bold text-slate-700">{formatCurrency(inv.amount)}</div></td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-bold text-slate-700">{formatCurrency(getRemainingPrincipal(inv))}</div>
+                            {getRemainingPrincipal(inv) < inv.amount && (
+                              <div className="text-[10px] text-slate-400 font-bold">de {formatCurrency(inv.amount)}</div>
+                            )}
+                            <div className="text-[10px] text-slate-400 font-bold">Liquidez {describeLiquidity(inv).toLowerCase()}</div>
+                          </td>
                           <td className="px-6 py-4"><div className="text-sm text-slate-600">{formatDate(inv.startDate)}</div></td>
                           <td className="px-6 py-4"><div className="text-sm text-slate-600">{formatDate(inv.dueDate)}</div></td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-bold text-teal-600">{formatCurrency(currentValues[inv.id]?.net || 0)}</div>
+                            <div className="text-[10px] text-slate-400 font-bold">Bruto {formatCurrency(currentValues[inv.id]?.gross || 0)}</div>
+                          </td>
                           <td className="px-6 py-4"><div className="flex items-center gap-1 text-blue-600 font-black text-sm">{formatCurrency(inv.netFutureValue)}</div></td>
                           <td className="px-6 py-4 text-right">
                             <div className="flex items-center justify-end gap-2">
+                              {(canRedeemOn(inv, new Date().toISOString().split('T')[0]) || (inv.partialRedemptions || []).length > 0) && (
+                                <button
+                                  onClick={() => setPartialRedemptionInvestment(inv)}
+                                  className="p-2 text-slate-300 hover:text-blue-600 rounded-lg transition-all"
+                                  title="Resgates parciais"
+                                >
+                                  <ArrowDownToLine className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => setRedemptionInvestment(inv)}
+                                className="p-2 text-slate-300 hover:text-emerald-600 rounded-lg transition-all"
+                                title="Simular ou registrar resgate"
+                              >
+                                <Calculator className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => setHistoryInvestment(inv)}
+                                className="p-2 text-slate-300 hover:text-indigo-600 rounded-lg transition-all"
+                                title="Histórico de alterações"
+                              >
+                                <History className="w-4 h-4" />
+                              </button>
                               <button
                                 onClick={() => {
                                   setEditingInvestment(inv);
@@ -583,6 +1050,22 @@ const App: React.FC = () => {
                 </table>
               </div>
             </div>
+
+            <ClosedPositions
+              investments={closedInvestments}
+              holders={holders}
+              selectedHolder={selectedHolder}
+              onRecordPayment={setRedemptionInvestment}
+              onReopen={handleReopenInvestment}
+              onDelete={handleDeleteInvestment}
+            />
+          </div>
+        ) : activeTab === 'cashflow' ? (
+          <CashFlowView investments={openInvestments} marketRates={marketRates} />
+        ) : activeTab === 'simulations' ? (
+          <div className="space-y-6">
+            <ScenarioComparison investments={openInvestments} marketRates={marketRates} />
+            <ReinvestmentSimulator investments={openInvestments} marketRates={marketRates} />
           </div>
         ) : activeTab === 'settings' ? (
           <div className="max-w-2xl mx-auto space-y-6">
@@ -609,7 +1092,7 @@ const App: React.FC = () => {
                       />
                       <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-300 font-bold">%</span>
                     </div>
-                    <p className="text-[10px] text-slate-400 leading-tight">Taxa anual utilizada como base para investimentos pós-fixados.</p>
+                    <p className="text-[10px] text-slate-400 leading-tight">Taxa anual projetada para os pós-fixados a partir de hoje (períodos passados usam o histórico abaixo).</p>
                   </div>
                   <div className="space-y-2">
                     <label className="text-xs font-bold text-slate-400 uppercase tracking-widest block">Taxa IPCA Anual (%)</label>
@@ -661,6 +1144,28 @@ const App: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            <HolderSettings holders={holders} onAdd={handleAddHolder} onDelete={handleDeleteHolder} />
+
+            <RateCurvePanel
+              investments={openInvestments}
+              marketRates={marketRates}
+              onSave={handleSaveRateCurve}
+            />
+
+            <RateHistoryPanel
+              history={marketRates.history || []}
+              onSave={handleSaveRateHistory}
+              onDelete={handleDeleteRateHistory}
+            />
+
+            <TrashPanel
+              investments={trashedInvestments}
+              onRestore={handleRestoreFromTrash}
+              onPurge={handlePurgeInvestments}
+            />
+
+            <AuditLogPanel />
           </div>
         ) : (
           <div className="space-y-6">
@@ -668,88 +1173,129 @@ const App: React.FC = () => {
             <div className="bg-blue-600 rounded-2xl p-6 lg:p-8 text-white relative overflow-hidden shadow-lg">
               <div className="relative z-10">
                 <h2 className="text-xl font-black mb-2 flex items-center gap-2"><ShieldCheck className="w-6 h-6" /> Monitor FGC</h2>
-                <p className="opacity-80 text-xs max-w-lg">O FGC garante até R$ 250k por instituição e R$ 1 milhão por CPF (considerando todas as instituições).</p>
+                <p className="opacity-80 text-xs max-w-lg">O FGC garante até R$ 250k por instituição e R$ 1 milhão por CPF em garantias pagas a cada período de 4 anos (considerando todas as instituições).</p>
 
                 <div className="mt-4 flex flex-wrap gap-4">
                   <div className="bg-white/10 px-4 py-2 rounded-lg border border-white/20">
-                    <p className="text-[9px] font-bold uppercase opacity-60">Total Bruto Futuro</p>
-                    <p className="text-lg font-black">{formatCurrency(investments.reduce((acc, curr) => acc + (curr.futureValue || 0), 0))}</p>
+                    <p className="text-[9px] font-bold uppercase opacity-60">Total Bruto Futuro Coberto</p>
+                    <p className="text-lg font-black">{formatCurrency(fgcHolderGroups.reduce((acc, group) => acc + group.total, 0))}</p>
                   </div>
                   <div className="bg-white/10 px-4 py-2 rounded-lg border border-white/20">
                     <p className="text-[9px] font-bold uppercase opacity-60">Bancos Utilizados</p>
-                    <p className="text-lg font-black">{fgcExposure.length}</p>
+                    <p className="text-lg font-black">{new Set(fgcHolderGroups.flatMap(group => group.institutions.map(([bank]) => bank))).size}</p>
                   </div>
                 </div>
               </div>
               <ShieldCheck className="absolute -right-4 -bottom-4 w-40 h-40 text-white opacity-5 pointer-events-none" />
             </div>
 
-            {/* Card Limite Global CPF - R$ 1 Milhão */}
-            {(() => {
-              const totalFGC = investments.reduce((acc, curr) => acc + (curr.futureValue || 0), 0);
-              const FGC_GLOBAL_LIMIT = 1000000;
-              const globalPercentage = Math.min((totalFGC / FGC_GLOBAL_LIMIT) * 100, 100);
-              const isGlobalOver = totalFGC > FGC_GLOBAL_LIMIT;
-              const isGlobalWarning = totalFGC > FGC_GLOBAL_LIMIT * 0.8 && !isGlobalOver;
-
-              let bgColor = "bg-emerald-50 border-emerald-200";
-              let barColor = "bg-emerald-500";
-              let textColor = "text-emerald-700";
-
-              if (isGlobalOver) {
-                bgColor = "bg-red-50 border-red-200";
-                barColor = "bg-red-500";
-                textColor = "text-red-700";
-              } else if (isGlobalWarning) {
-                bgColor = "bg-amber-50 border-amber-200";
-                barColor = "bg-amber-500";
-                textColor = "text-amber-700";
-              }
-
-              return (
-                <div className={`${bgColor} border rounded-2xl p-6`}>
-                  <div className="flex items-center justify-between mb-4">
-                    <div>
-                      <h3 className={`text-sm font-bold ${textColor} uppercase tracking-tight`}>Limite Global por CPF</h3>
-                      <p className="text-2xl font-black text-slate-800">{formatCurrency(totalFGC)} <span className="text-sm font-medium text-slate-400">/ R$ 1.000.000</span></p>
-                    </div>
-                    <span className={`text-xl font-black ${textColor}`}>{globalPercentage.toFixed(1)}%</span>
-                  </div>
-                  <div className="w-full h-4 bg-slate-200 rounded-full overflow-hidden">
-                    <div className={`h-full transition-all duration-500 ${barColor}`} style={{ width: `${globalPercentage}%` }} />
-                  </div>
-                  {isGlobalOver && (
-                    <p className="mt-3 text-xs text-red-600 font-medium">
-                      ⚠️ Você ultrapassou o limite global do FGC. O excedente de {formatCurrency(totalFGC - FGC_GLOBAL_LIMIT)} <strong>não está coberto</strong>.
-                    </p>
-                  )}
-                  {isGlobalWarning && (
-                    <p className="mt-3 text-xs text-amber-600 font-medium">
-                      ⚡ Você está próximo do limite global do FGC. Considere diversificar em outros tipos de ativos.
-                    </p>
+            {fgcHolderGroups.map(group => (
+              <div key={group.holderId} className="space-y-6">
+                {holders.length > 0 && (
+                  <h3 className="text-lg font-black text-slate-800 mt-8">{getHolderName(holders, group.holderId)}</h3>
+                )}
+
+                {/* Card Limite Global CPF - R$ 1 Milhão em janela de 4 anos */}
+                <FGCGlobalCard totalValue={group.total} coverage={group.coverage} />
+
+                {/* Cards por Banco */}
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest mt-8">Exposição por Instituição</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6">
+                  {group.institutions.length === 0 ? (<div className="col-span-full py-16 bg-white rounded-2xl border-2 border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400"><ShieldCheck className="w-10 h-10 mb-2 opacity-20" /><p className="text-sm">Nenhum banco identificado.</p></div>) : (
+                    group.institutions.map(([bank, total]) => <FGCCard key={bank} bank={bank} totalValue={total} />)
                   )}
                 </div>
-              );
-            })()}
-
-            {/* Cards por Banco */}
-            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest mt-8">Exposição por Instituição</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6">
-              {fgcExposure.length === 0 ? (<div className="col-span-full py-16 bg-white rounded-2xl border-2 border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400"><ShieldCheck className="w-10 h-10 mb-2 opacity-20" /><p className="text-sm">Nenhum banco identificado.</p></div>) : (
-                fgcExposure.map(([bank, total]) => <FGCCard key={bank} bank={bank} totalValue={total} />)
+              </div>
+            ))}
+
+            {/* Assistente para novas aplicações: os limites valem por CPF, então com vários titulares é preciso escolher um */}
+            <div className="mt-8">
+              {holders.length > 0 && selectedHolder === ALL_HOLDERS ? (
+                <div className="p-5 bg-white rounded-2xl border-2 border-dashed border-slate-200 text-center text-sm text-slate-400">
+                  Selecione um titular para ver onde a nova aplicação cabe sob o limite do FGC desse CPF.
+                </div>
+              ) : (
+                <FGCAllocationAdvisor investments={holderPortfolio} marketRates={marketRates} />
               )}
             </div>
+
+            {/* Histórico de garantias recebidas */}
+            <div className="mt-8">
+              <FGCEventHistory events={fgcEvents} holders={holders} onAdd={handleAddGuaranteeEvent} onDelete={handleDeleteGuaranteeEvent} />
+            </div>
+
+            {/* Posições sem cobertura */}
+            {fgcUncoveredInvestments.length > 0 && (
+              <>
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest mt-8">Sem Cobertura do FGC</h3>
+                <div className="bg-white rounded-2xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+                  {fgcUncoveredInvestments.map(inv => (
+                    <div key={inv.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-slate-100 text-slate-500 flex items-center justify-center font-bold text-[10px] shrink-0">{inv.title}</div>
+                        <div>
+                          <div className="text-sm font-bold text-slate-800">{inv.bank}</div>
+                          <div className="text-[11px] text-slate-400">{getFgcEligibility(inv.title).reason}</div>
+                          {holders.length > 0 && <div className="text-[10px] text-indigo-500 font-bold">{describeHolders(holders, inv)}</div>}
+                        </div>
+                      </div>
+                      {/* Na participação do titular selecionado, como nos cartões de exposição */}
+                      <div className="text-sm font-bold text-slate-700 shrink-0">{formatCurrency((inv.futureValue || 0) * getHolderFraction(inv, selectedHolder))}</div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
         )}
       </main>
 
+      {showImport && (
+        <ImportWizard
+          investments={keptInvestments}
+          marketRates={marketRates}
+          onImport={handleImportInvestments}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {redemptionInvestment && (
+        <RedemptionModal
+          investment={redemptionInvestment}
+          marketRates={marketRates}
+          onClose={() => setRedemptionInvestment(null)}
+          onRecord={(status, redemption) => handleCloseInvestment(redemptionInvestment, status, redemption)}
+        />
+      )}
+
+      {partialRedemptionInvestment && (
+        <PartialRedemptionModal
+          investment={partialRedemptionInvestment}
+          marketRates={marketRates}
+          onClose={() => setPartialRedemptionInvestment(null)}
+          onSave={redemptions => handleSavePartialRedemptions(partialRedemptionInvestment, redemptions)}
+        />
+      )}
+
+      {historyInvestment && (
+        <InvestmentHistoryDrawer
+          investment={historyInvestment}
+          onClose={() => setHistoryInvestment(null)}
+          onRestore={version => handleRestoreVersion(historyInvestment, version)}
+        />
+      )}
+
       {/* Navigation Mobile */}
       <nav className="lg:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-slate-200 px-4 py-3 flex items-center justify-between z-50 shadow-lg">
         <button onClick={() => setActiveTab('dashboard')} className={`flex flex-col items-center gap-1 ${activeTab === 'dashboard' ? 'text-blue-600' : 'text-slate-400'}`}><LayoutDashboard className="w-5 h-5" /><span className="text-[10px] font-bold uppercase">Início</span></button>
         <button onClick={() => setActiveTab('investments')} className={`flex flex-col items-center gap-1 ${activeTab === 'investments' ? 'text-blue-600' : 'text-slate-400'}`}><List className="w-5 h-5" /><span className="text-[10px] font-bold uppercase">Ativos</span></button>
+        <button onClick={() => setActiveTab('cashflow')} className={`flex flex-col items-center gap-1 ${activeTab === 'cashflow' ? 'text-blue-600' : 'text-slate-400'}`}><CalendarDays className="w-5 h-5" /><span className="text-[10px] font-bold uppercase">Fluxo</span></button>
+        <button onClick={() => setActiveTab('simulations')} className={`flex flex-col items-center gap-1 ${activeTab === 'simulations' ? 'text-blue-600' : 'text-slate-400'}`}><FlaskConical className="w-5 h-5" /><span className="text-[10px] font-bold uppercase">Simular</span></button>
         <button onClick={() => setActiveTab('fgc')} className={`flex flex-col items-center gap-1 ${activeTab === 'fgc' ? 'text-blue-600' : 'text-slate-400'}`}><ShieldCheck className="w-5 h-5" /><span className="text-[10px] font-bold uppercase">FGC</span></button>
         <button onClick={() => setActiveTab('settings')} className={`flex flex-col items-center gap-1 ${activeTab === 'settings' ? 'text-blue-600' : 'text-slate-400'}`}><Settings className="w-5 h-5" /><span className="text-[10px] font-bold uppercase">Ajustes</span></button>
       </nav>
+
+      <ToastContainer />
     </div>
   );
 };
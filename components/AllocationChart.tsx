@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts';
+import { Investment } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import {
+  ALLOCATION_DIMENSION_LABELS,
+  ALLOCATION_MEASURE_LABELS,
+  AllocationDimension,
+  AllocationFilter,
+  AllocationMeasure,
+  buildAllocation,
+} from '../utils/allocation';
+
+interface Props {
+  investments: Investment[]; // Posições abertas do titular selecionado
+  selectedHolder: string;
+  onSelectSlice: (filter: AllocationFilter) => void;
+}
+
+const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#0891b2', '#db2777', '#65a30d', '#64748b'];
+
+// Alocação por indexador, corretora, conglomerado, título ou prazo; clicar numa fatia filtra a lista de investimentos
+export const AllocationChart: React.FC<Props> = ({ investments, selectedHolder, onSelectSlice }) => {
+  const [dimension, setDimension] = useState<AllocationDimension>('indexer');
+  const [measure, setMeasure] = useState<AllocationMeasure>('principal');
+
+  const slices = useMemo(
+    () => buildAllocation(investments, dimension, measure, selectedHolder),
+    [investments, dimension, measure, selectedHolder]
+  );
+  const total = slices.reduce((acc, slice) => acc + slice.value, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 min-h-[350px]">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-lg font-bold text-slate-800">Alocação por {ALLOCATION_DIMENSION_LABELS[dimension]}</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {(Object.keys(ALLOCATION_DIMENSION_LABELS) as AllocationDimension[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setDimension(option)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${dimension === option ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {ALLOCATION_DIMENSION_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <select
+            value={measure}
+            onChange={e => setMeasure(e.target.value as AllocationMeasure)}
+            className="p-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {(Object.keys(ALLOCATION_MEASURE_LABELS) as AllocationMeasure[]).map(option => (
+              <option key={option} value={option}>{ALLOCATION_MEASURE_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {slices.length === 0 ? (
+        <p className="text-center text-sm text-slate-400 py-16">Nenhum investimento ativo.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-center">
+          <div className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie
+                  data={slices}
+                  cx="50%"
+                  cy="50%"
+                  innerRadius={80}
+                  outerRadius={120}
+                  paddingAngle={5}
+                  dataKey="value"
+                  nameKey="key"
+                  className="cursor-pointer"
+                  onClick={(_, index) => onSelectSlice({ dimension, key: slices[index].key })}
+                >
+                  {slices.map((slice, index) => <Cell key={slice.key} fill={COLORS[index % COLORS.length]} />)}
+                </Pie>
+                <RechartsTooltip formatter={(val: number) => formatCurrency(val)} contentStyle={{ borderRadius: '12px', border: 'none' }} />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="divide-y divide-slate-100">
+            {slices.map((slice, index) => (
+              <button
+                key={slice.key}
+                onClick={() => onSelectSlice({ dimension, key: slice.key })}
+                className="w-full flex items-center justify-between gap-3 py-2 px-2 rounded-lg text-left hover:bg-slate-50 transition-all"
+                title="Ver estes investimentos na lista"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                  <span className="text-sm font-bold text-slate-700 truncate">{slice.key}</span>
+                  <span className="text-[10px] text-slate-400 font-bold shrink-0">{slice.count} {slice.count === 1 ? 'ativo' : 'ativos'}</span>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-sm font-black text-slate-800">{formatCurrency(slice.value)}</p>
+                  <p className="text-[10px] text-slate-400 font-bold">{total > 0 ? ((slice.value / total) * 100).toFixed(1) : '0'}%</p>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, History, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { AuditEntityType, AuditEntry } from '../types';
+import { fetchAuditTrail } from '../services/auditService';
+import { reportFailure } from '../services/notifications';
+import { AUDIT_ACTION_LABELS, AUDIT_CAUSE_LABELS, AUDIT_ENTITY_LABELS, formatAuditValue, getFieldLabel, groupRecalculations } from '../utils/audit';
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-emerald-50 text-emerald-700',
+  update: 'bg-blue-50 text-blue-700',
+  delete: 'bg-red-50 text-red-700',
+  restore: 'bg-amber-50 text-amber-700',
+};
+
+interface EntryProps {
+  entry: AuditEntry;
+  showEntity?: boolean;
+  onRestore?: () => void; // Só para versões que podem voltar a ser a atual
+}
+
+// Uma alteração: quem, quando e os campos com o antes → depois
+export const AuditEntryCard: React.FC<EntryProps> = ({ entry, showEntity, onRestore }) => {
+  const isSnapshot = entry.action === 'create' || entry.action === 'delete';
+
+  return (
+    <div className="border border-slate-100 rounded-xl p-3 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 rounded-full text-[10px] font-black uppercase ${ACTION_STYLES[entry.action]}`}>
+              {entry.cause ? AUDIT_CAUSE_LABELS[entry.cause] : AUDIT_ACTION_LABELS[entry.action]}
+            </span>
+            {showEntity && (
+              <span className="text-xs font-bold text-slate-700">
+                {AUDIT_ENTITY_LABELS[entry.entityType]} · {entry.entityLabel}
+              </span>
+            )}
+          </div>
+          <p className="text-[10px] text-slate-400 font-bold mt-1">
+            {new Date(entry.changedAt).toLocaleString('pt-BR')}
+            {entry.changedBy && ` · ${entry.changedBy}`}
+          </p>
+        </div>
+        {onRestore && (
+          <button
+            onClick={onRestore}
+            className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold text-blue-600 hover:bg-blue-50 rounded-lg transition-all shrink-0"
+            title="Voltar o investimento para esta versão"
+          >
+            <RotateCcw className="w-3 h-3" /> Restaurar esta versão
+          </button>
+        )}
+      </div>
+
+      {entry.changes.length > 0 && (
+        <ul className="text-[11px] text-slate-600 space-y-0.5">
+          {entry.changes.map(change => (
+            <li key={change.field}>
+              <span className="font-bold">{getFieldLabel(entry.entityType, change.field)}:</span>{' '}
+              {isSnapshot ? (
+                formatAuditValue(change.field, change.after ?? change.before)
+              ) : (
+                <>
+                  <span className="text-slate-400 line-through">{formatAuditValue(change.field, change.before)}</span>
+                  {' → '}
+                  <span>{formatAuditValue(change.field, change.after)}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface RecalculationProps {
+  entries: AuditEntry[]; // Mais recentes primeiro
+  showEntity?: boolean;
+}
+
+// Recálculos seguidos pelas taxas de mercado, recolhidos numa linha; os detalhes abrem sob demanda
+export const RecalculationGroup: React.FC<RecalculationProps> = ({ entries, showEntity }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const newest = new Date(entries[0].changedAt).toLocaleString('pt-BR');
+  const oldest = new Date(entries[entries.length - 1].changedAt).toLocaleString('pt-BR');
+
+  return (
+    <div className="border border-slate-100 rounded-xl">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-3 p-3 text-left hover:bg-slate-50 rounded-xl transition-all"
+      >
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="px-2 py-0.5 rounded-full text-[10px] font-black uppercase bg-slate-100 text-slate-600">
+              {AUDIT_CAUSE_LABELS.recalculation}
+            </span>
+            <span className="text-xs font-bold text-slate-700">
+              {entries.length} {entries.length === 1 ? 'valor recalculado' : 'valores recalculados'} pelas taxas de mercado
+            </span>
+          </div>
+          <p className="text-[10px] text-slate-400 font-bold mt-1">{oldest === newest ? newest : `${oldest} a ${newest}`}</p>
+        </div>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400 shrink-0" /> : <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" />}
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          {entries.map(entry => <AuditEntryCard key={entry.id} entry={entry} showEntity={showEntity} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+type EntityFilter = AuditEntityType | 'all';
+
+const FILTERS: { value: EntityFilter; label: string }[] = [
+  { value: 'all', label: 'Tudo' },
+  { value: 'investment', label: 'Investimentos' },
+  { value: 'rate', label: 'Taxas' },
+  { value: 'institution', label: 'Instituições' },
+];
+
+const PAGE_SIZE = 100;
+
+// Histórico de alterações de toda a carteira (Configurações)
+export const AuditLogPanel: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filter, setFilter] = useState<EntityFilter>('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchAuditTrail({ entityType: filter === 'all' ? undefined : filter, limit: PAGE_SIZE });
+    setIsLoading(false);
+    if (reportFailure(result, load)) return;
+    setEntries(result.data);
+  }, [filter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" />
+            Histórico de Alterações
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">Criações, edições e exclusões de investimentos, taxas e instituições.</p>
+        </div>
+        <button onClick={load} className="p-2 text-slate-400 hover:text-blue-600 rounded-lg transition-all" title="Atualizar">
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${filter === option.value ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-slate-400" /></div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-sm text-slate-400 py-8">Nenhuma alteração registrada.</p>
+        ) : (
+          <div className="space-y-2 max-h-[480px] overflow-y-auto">
+            {groupRecalculations(entries).map(group => group[0].cause === 'recalculation'
+              ? <RecalculationGroup key={group[0].id} entries={group} showEntity />
+              : <AuditEntryCard key={group[0].id} entry={group[0]} showEntity />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { Investment, MarketRates } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { getPortfolioCashFlows, ProjectedCashFlow } from '../utils/cashflow';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
+import { CalendarDays, Coins, Landmark } from 'lucide-react';
+
+interface Props {
+  investments: Investment[];
+  marketRates: MarketRates;
+}
+
+type GroupBy = 'conglomerate' | 'broker';
+
+const HORIZONS = [
+  { months: 12, label: '12 meses' },
+  { months: 24, label: '24 meses' },
+  { months: 60, label: '5 anos' },
+  { months: 0, label: 'Tudo' },
+];
+
+const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'];
+
+const formatMonth = (month: string) => {
+  const [year, m] = month.split('-');
+  return new Date(Date.UTC(Number(year), Number(m) - 1, 1)).toLocaleDateString('pt-BR', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+};
+
+export const CashFlowView: React.FC<Props> = ({ investments, marketRates }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('conglomerate');
+  const [horizon, setHorizon] = useState(24);
+
+  const flows = useMemo(() => {
+    const all = getPortfolioCashFlows(investments, marketRates);
+    if (!horizon) return all;
+    const limit = new Date();
+    limit.setMonth(limit.getMonth() + horizon);
+    const limitISO = limit.toISOString().split('T')[0];
+    return all.filter(flow => flow.date <= limitISO);
+  }, [investments, marketRates, horizon]);
+
+  // Uma linha por mês com uma chave por instituição/corretora (barras empilhadas)
+  const { chartData, groups } = useMemo(() => {
+    const groupSet = new Set<string>();
+    const byMonth: Record<string, Record<string, number>> = {};
+    flows.forEach(flow => {
+      const group = flow[groupBy];
+      groupSet.add(group);
+      byMonth[flow.month] = byMonth[flow.month] || {};
+      byMonth[flow.month][group] = (byMonth[flow.month][group] || 0) + flow.amount;
+    });
+    return {
+      chartData: Object.entries(byMonth)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, values]) => ({ month: formatMonth(month), ...values })),
+      groups: [...groupSet].sort(),
+    };
+  }, [flows, groupBy]);
+
+  const flowsByMonth = useMemo(() => {
+    const months: Record<string, ProjectedCashFlow[]> = {};
+    flows.forEach(flow => {
+      months[flow.month] = months[flow.month] || [];
+      months[flow.month].push(flow);
+    });
+    return Object.entries(months).sort(([a], [b]) => a.localeCompare(b));
+  }, [flows]);
+
+  const total = flows.reduce((acc, flow) => acc + flow.amount, 0);
+  const couponTotal = flows.filter(f => f.kind === 'coupon').reduce((acc, flow) => acc + flow.amount, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex bg-white rounded-xl border border-slate-200 p-1">
+          {HORIZONS.map(h => (
+            <button
+              key={h.months}
+              onClick={() => setHorizon(h.months)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${horizon === h.months ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+            >
+              {h.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex bg-white rounded-xl border border-slate-200 p-1">
+          <button onClick={() => setGroupBy('conglomerate')} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${groupBy === 'conglomerate' ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}>Por Instituição</button>
+          <button onClick={() => setGroupBy('broker')} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${groupBy === 'broker' ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}>Por Corretora</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 lg:gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Entradas Líquidas no Período</p>
+          <p className="text-2xl font-black text-slate-800 tracking-tight">{formatCurrency(total)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Cupons Líquidos</p>
+          <p className="text-2xl font-black text-slate-800 tracking-tight">{formatCurrency(couponTotal)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 min-h-[350px]">
+        <h3 className="text-lg font-bold text-slate-800 mb-6">Entradas por Mês</h3>
+        {chartData.length === 0 ? (
+          <p className="py-16 text-center text-slate-400 italic text-sm">Nenhuma entrada prevista no período.</p>
+        ) : (
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="month" tick={{ fontSize: 11, fill: '#94a3b8' }} />
+                <YAxis tick={{ fontSize: 11, fill: '#94a3b8' }} tickFormatter={(val: number) => `${Math.round(val / 1000)}k`} />
+                <RechartsTooltip formatter={(val: number) => formatCurrency(val)} contentStyle={{ borderRadius: '12px', border: 'none' }} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {groups.map((group, index) => (
+                  <Bar key={group} dataKey={group} stackId="flows" fill={COLORS[index % COLORS.length]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-5 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-blue-600" />
+            Calendário de Entradas
+          </h3>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {flowsByMonth.map(([month, monthFlows]) => (
+            <div key={month} className="px-6 py-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-black text-slate-500 uppercase tracking-widest">{formatMonth(month)}</span>
+                <span className="text-sm font-black text-blue-600">{formatCurrency(monthFlows.reduce((acc, f) => acc + f.amount, 0))}</span>
+              </div>
+              <div className="space-y-1">
+                {monthFlows.map(flow => (
+                  <div key={`${flow.investmentId}-${flow.kind}-${flow.date}`} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2 text-slate-600">
+                      {flow.kind === 'coupon'
+                        ? <Coins className="w-3.5 h-3.5 text-amber-500" />
+                        : <Landmark className="w-3.5 h-3.5 text-blue-500" />}
+                      <span className="font-bold text-slate-800">{flow.title} {flow.bank}</span>
+                      <span className="text-[11px] text-slate-400">{formatDate(flow.date)} · {flow.kind === 'coupon' ? 'Cupom' : 'Vencimento'} · {flow.broker}</span>
+                    </div>
+                    <span className="font-bold text-slate-700">{formatCurrency(flow.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { Archive, HandCoins, RotateCcw, Trash2 } from 'lucide-react';
+import { Holder, Investment } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { describeHolders, getHolderFraction } from '../utils/holders';
+import { getInvestmentStatus, getRealizedGain, getTotalReceived, INVESTMENT_STATUS_LABELS, isAwaitingRedemption } from '../utils/lifecycle';
+import { getRemainingPrincipal } from '../utils/liquidity';
+
+interface Props {
+  investments: Investment[]; // Posições encerradas visíveis para o titular selecionado
+  holders: Holder[];
+  selectedHolder: string;
+  onRecordPayment: (investment: Investment) => void;
+  onReopen: (investment: Investment) => void;
+  onDelete: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  matured: 'bg-emerald-50 text-emerald-700',
+  redeemed_early: 'bg-blue-50 text-blue-700',
+  fgc_claim: 'bg-amber-50 text-amber-700',
+};
+
+// Histórico de posições vencidas, resgatadas ou em garantia do FGC, com o ganho efetivamente realizado
+export const ClosedPositions: React.FC<Props> = ({ investments, holders, selectedHolder, onRecordPayment, onReopen, onDelete }) => {
+  const sorted = useMemo(() => {
+    const closedOn = (inv: Investment) => inv.redemption?.date || inv.dueDate;
+    return [...investments].sort((a, b) => closedOn(b).localeCompare(closedOn(a)));
+  }, [investments]);
+
+  // Totais pela participação do titular selecionado
+  const summary = useMemo(() => {
+    return investments.reduce((acc, inv) => {
+      const share = getHolderFraction(inv, selectedHolder);
+      if (!inv.redemption) {
+        // Vencidas ainda sem o valor recebido ficam fora dos totais até o registro
+        if (getInvestmentStatus(inv) !== 'fgc_claim') return acc;
+        return { ...acc, pendingClaims: acc.pendingClaims + getRemainingPrincipal(inv) * share };
+      }
+      return {
+        ...acc,
+        invested: acc.invested + inv.amount * share,
+        received: acc.received + getTotalReceived(inv) * share,
+        gain: acc.gain + getRealizedGain(inv) * share,
+      };
+    }, { invested: 0, received: 0, gain: 0, pendingClaims: 0 });
+  }, [investments, selectedHolder]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-slate-100 text-slate-600 rounded-xl"><Archive className="w-5 h-5" /></div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Posições Encerradas</h3>
+            <p className="text-xs text-slate-400">Fora dos totais, das projeções e do monitor do FGC</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-6">
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Recebido</p>
+            <p className="text-sm font-black text-slate-800">{formatCurrency(summary.received)}</p>
+          </div>
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Ganho Realizado</p>
+            <p className={`text-sm font-black ${summary.gain >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+              {formatCurrency(summary.gain)}
+              {summary.invested > 0 && <span className="ml-1 text-[10px]">({((summary.gain / summary.invested) * 100).toFixed(1)}%)</span>}
+            </p>
+          </div>
+          {summary.pendingClaims > 0 && (
+            <div>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">A Receber do FGC</p>
+              <p className="text-sm font-black text-amber-600">{formatCurrency(summary.pendingClaims)} <span className="text-[10px] font-bold">aplicados</span></p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="p-10 text-center text-sm text-slate-400">Nenhuma posição encerrada ainda. Use o botão de resgate na lista para registrar vencimentos e resgates.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50/50">
+              <tr>
+                <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Banco / Título</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Valor Aplicado</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Situação</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Recebido em</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Líquido Recebido</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Ganho Realizado</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sorted.map(inv => {
+                const status = getInvestmentStatus(inv);
+                const gain = getRealizedGain(inv);
+                return (
+                  <tr key={inv.id} className="hover:bg-slate-50/50 transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-bold text-slate-800">{inv.title} {inv.bank}</div>
+                      <div className="text-[10px] text-slate-400 font-bold">
+                        {formatDate(inv.startDate)} → {formatDate(inv.dueDate)}
+                        {holders.length > 0 && <span className="text-indigo-500"> · {describeHolders(holders, inv)}</span>}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm font-bold text-slate-700">{formatCurrency(inv.amount)}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-[10px] font-black uppercase ${STATUS_STYLES[status]}`}>
+                        {INVESTMENT_STATUS_LABELS[status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600">{inv.redemption ? formatDate(inv.redemption.date) : '—'}</td>
+                    <td className="px-6 py-4 text-sm font-bold text-slate-800">{inv.redemption ? formatCurrency(getTotalReceived(inv)) : isAwaitingRedemption(inv) ? 'A registrar' : 'Aguardando pagamento'}</td>
+                    <td className={`px-6 py-4 text-sm font-black ${gain >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {inv.redemption ? formatCurrency(gain) : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {!inv.redemption && (
+                          <button onClick={() => onRecordPayment(inv)} className="p-2 text-slate-300 hover:text-emerald-600 rounded-lg transition-all" title="Registrar pagamento">
+                            <HandCoins className="w-4 h-4" />
+                          </button>
+                        )}
+                        {inv.status && inv.status !== 'active' && (
+                          <button onClick={() => onReopen(inv)} className="p-2 text-slate-300 hover:text-blue-600 rounded-lg transition-all" title="Reabrir posição">
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button onClick={() => onDelete(inv.id)} className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all" title="Excluir">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw, Settings } from 'lucide-react';
+import { DEFAULT_MARKET_RATES } from '../utils/rates';
+
+// 'defaults': nenhuma taxa cadastrada; 'failed': as taxas não puderam ser carregadas
+export type RatesSource = 'saved' | 'defaults' | 'failed';
+
+interface Props {
+  source: Exclude<RatesSource, 'saved'>;
+  onRetry: () => void;
+  onConfigure: () => void;
+}
+
+// Aviso de que projeções e valores atuais estão usando as taxas padrão do app
+export const DefaultRatesBanner: React.FC<Props> = ({ source, onRetry, onConfigure }) => {
+  const rates = `CDI ${DEFAULT_MARKET_RATES.cdi.toFixed(2).replace('.', ',')}% e IPCA ${DEFAULT_MARKET_RATES.ipca.toFixed(2).replace('.', ',')}%`;
+
+  return (
+    <div className="mb-6 bg-amber-50 border border-amber-200 rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+      <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
+      <p className="flex-1 text-sm text-amber-800">
+        {source === 'failed'
+          ? <>Não foi possível carregar suas taxas de mercado. Os cálculos estão usando as <strong>taxas padrão</strong> ({rates}).</>
+          : <>Nenhuma taxa de mercado cadastrada. Os cálculos estão usando as <strong>taxas padrão</strong> ({rates}).</>}
+      </p>
+      {source === 'failed' ? (
+        <button onClick={onRetry} className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-xl text-xs font-bold hover:bg-amber-700 transition-all">
+          <RefreshCw className="w-4 h-4" /> Tentar novamente
+        </button>
+      ) : (
+        <button onClick={onConfigure} className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-xl text-xs font-bold hover:bg-amber-700 transition-all">
+          <Settings className="w-4 h-4" /> Informar taxas
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Investment, InvestmentTitle, InvestmentType, MarketRates } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { addDays, addYears, toISODate, toUTCDate } from '../utils/holidays';
+import { FgcAllocationRequest, FGC_INSTITUTION_LIMIT, isFgcCovered, planFgcAllocation } from '../utils/fgc';
+import { Compass, CheckCircle2, XCircle } from 'lucide-react';
+
+interface Props {
+  investments: Investment[];
+  marketRates: MarketRates;
+}
+
+export const FGCAllocationAdvisor: React.FC<Props> = ({ investments, marketRates }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [draft, setDraft] = useState<FgcAllocationRequest>(() => ({
+    amount: 0,
+    dueDate: addYears(today, 2),
+    title: InvestmentTitle.CDB,
+    type: InvestmentType.CDI,
+    interestRate: 100,
+  }));
+  const [request, setRequest] = useState<FgcAllocationRequest | null>(null);
+
+  // A projeção conta dias úteis de cada posição em cada data; só recalcula ao enviar
+  const plan = useMemo(() => {
+    if (!request) return null;
+    return planFgcAllocation(investments, marketRates, request);
+  }, [investments, marketRates, request]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Vencimento hoje ou no passado não tem prazo para projetar
+    if (!draft.amount || draft.amount <= 0 || !draft.dueDate || draft.dueDate <= today) return;
+    setRequest({ ...draft });
+  };
+
+  const inputClass = "w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+  const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1";
+  const coveredTitles = Object.values(InvestmentTitle).filter(title => isFgcCovered({ title }));
+  const allocated = plan ? plan.split.reduce((acc, slice) => acc + slice.amount, 0) : 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-5 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+          <Compass className="w-5 h-5 text-blue-600" />
+          Onde Aplicar com Cobertura
+        </h3>
+        <p className="text-xs text-slate-500 mt-1">
+          Projeta a exposição de cada conglomerado até o vencimento (posições atuais com rendimento mais a nova aplicação) e indica onde cabe sem passar de {formatCurrency(FGC_INSTITUTION_LIMIT)}.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-5 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 items-end border-b border-slate-100">
+        <div>
+          <label className={labelClass}>Valor (R$)</label>
+          <input type="number" required step="0.01" min="0.01" className={inputClass} value={draft.amount || ''} onChange={e => setDraft({ ...draft, amount: parseFloat(e.target.value) })} />
+        </div>
+        <div>
+          <label className={labelClass}>Vencimento</label>
+          <input type="date" required min={toISODate(addDays(toUTCDate(today), 1))} className={inputClass} value={draft.dueDate} onChange={e => setDraft({ ...draft, dueDate: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>Título</label>
+          <select className={inputClass} value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })}>
+            {coveredTitles.map(title => <option key={title} value={title}>{title}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Rentabilidade</label>
+          <select className={inputClass} value={draft.type} onChange={e => setDraft({ ...draft, type: e.target.value as InvestmentType })}>
+            {Object.values(InvestmentType).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Taxa (%)</label>
+          <input type="number" required step="0.01" className={inputClass} value={draft.interestRate || ''} onChange={e => setDraft({ ...draft, interestRate: parseFloat(e.target.value) })} />
+        </div>
+        <button type="submit" className="flex items-center justify-center gap-2 p-3 rounded-xl font-bold text-white bg-blue-600 hover:bg-blue-700 transition-all text-sm">
+          Analisar
+        </button>
+      </form>
+
+      {plan && request && (
+        <div className="p-5 space-y-5">
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Sugestão de Divisão</p>
+            <div className="space-y-1">
+              {plan.split.map((slice, index) => (
+                <div key={index} className="flex items-center justify-between text-sm">
+                  <span className="font-bold text-slate-800">{slice.institution ?? 'Novo conglomerado (sem posições na carteira)'}</span>
+                  <span className="font-bold text-blue-600">{formatCurrency(slice.amount)}</span>
+                </div>
+              ))}
+            </div>
+            {allocated < request.amount && (
+              <p className="mt-2 text-xs text-red-600 font-medium">
+                {formatCurrency(request.amount - allocated)} não couberam em nenhum conglomerado.
+              </p>
+            )}
+            <p className="mt-2 text-[11px] text-slate-400">
+              Um conglomerado novo comporta até {formatCurrency(plan.newInstitutionCapacity)} aplicados hoje com vencimento em {formatDate(request.dueDate)}.
+            </p>
+          </div>
+
+          {plan.institutions.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b border-slate-100">
+                    <th className="py-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Conglomerado</th>
+                    <th className="py-2 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Exposição Projetada</th>
+                    <th className="py-2 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Pico em</th>
+                    <th className="py-2 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Cabe Aplicar</th>
+                    <th className="py-2 text-xs font-bold text-slate-400 uppercase tracking-widest text-center">Valor Inteiro</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {plan.institutions.map(room => (
+                    <tr key={room.institution}>
+                      <td className="py-2 text-sm font-bold text-slate-800">{room.institution}</td>
+                      <td className="py-2 text-sm text-right text-slate-600">{formatCurrency(room.peakExposure)}</td>
+                      <td className="py-2 text-sm text-right text-slate-500">{formatDate(room.peakDate)}</td>
+                      <td className="py-2 text-sm text-right font-bold text-slate-700">{formatCurrency(room.capacity)}</td>
+                      <td className="py-2 text-center">
+                        {room.fits
+                          ? <CheckCircle2 className="w-4 h-4 text-emerald-500 inline" />
+                          : <XCircle className="w-4 h-4 text-slate-300 inline" />}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
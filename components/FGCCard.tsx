@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { formatCurrency } from '../utils/calculations';
+import { FGC_INSTITUTION_LIMIT } from '../utils/fgc';
 import { ShieldCheck, ShieldAlert, AlertTriangle } from 'lucide-react';
 
 interface Props {
@@ -8,12 +9,10 @@ interface Props {
   totalValue: number;
 }
 
-const FGC_LIMIT = 250000;
-
 export const FGCCard: React.FC<Props> = ({ bank, totalValue }) => {
-  const percentage = Math.min((totalValue / FGC_LIMIT) * 100, 100);
-  const isOverLimit = totalValue > FGC_LIMIT;
-  const isWarning = totalValue > FGC_LIMIT * 0.8 && !isOverLimit;
+  const percentage = Math.min((totalValue / FGC_INSTITUTION_LIMIT) * 100, 100);
+  const isOverLimit = totalValue > FGC_INSTITUTION_LIMIT;
+  const isWarning = totalValue > FGC_INSTITUTION_LIMIT * 0.8 && !isOverLimit;
 
   let statusColor = "bg-emerald-500";
   let textColor = "text-emerald-600";
@@ -71,7 +70,7 @@ export const FGCCard: React.FC<Props> = ({ bank, totalValue }) => {
         <div className="mt-4 p-3 bg-red-50 rounded-xl border border-red-100 flex items-start gap-2">
           <ShieldAlert className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
           <p className="text-[11px] text-red-700 leading-tight">
-            <strong>Atenção:</strong> Este banco excedeu o limite de garantia do FGC. O excedente de {formatCurrency(totalValue - FGC_LIMIT)} não está coberto.
+            <strong>Atenção:</strong> Este banco excedeu o limite de garantia do FGC. O excedente de {formatCurrency(totalValue - FGC_INSTITUTION_LIMIT)} não está coberto.
           </p>
         </div>
       )}
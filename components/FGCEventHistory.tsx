@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { FgcGuaranteeEvent, Holder } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { FGC_GLOBAL_WINDOW_YEARS } from '../utils/fgc';
+import { getHolderName, UNASSIGNED_HOLDER } from '../utils/holders';
+import { History, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  events: FgcGuaranteeEvent[];
+  holders: Holder[];
+  onAdd: (event: Omit<FgcGuaranteeEvent, 'id' | 'createdAt'>) => void;
+  onDelete: (id: string) => void;
+}
+
+export const FGCEventHistory: React.FC<Props> = ({ events, holders, onAdd, onDelete }) => {
+  const [institution, setInstitution] = useState('');
+  const [eventDate, setEventDate] = useState(new Date().toISOString().split('T')[0]);
+  const [amountPaid, setAmountPaid] = useState(0);
+  const [notes, setNotes] = useState('');
+  const [holderId, setHolderId] = useState(UNASSIGNED_HOLDER);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!institution.trim() || !amountPaid) return;
+
+    onAdd({ institution, eventDate, amountPaid, notes, holderId: holderId || undefined });
+    setInstitution('');
+    setAmountPaid(0);
+    setNotes('');
+  };
+
+  const inputClass = "w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+  const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-5 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+          <History className="w-5 h-5 text-blue-600" />
+          Garantias Recebidas do FGC
+        </h3>
+        <p className="text-xs text-slate-500 mt-1">
+          Cada pagamento consome o limite global por {FGC_GLOBAL_WINDOW_YEARS} anos a partir da data em que foi recebido.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className={`p-5 grid grid-cols-1 sm:grid-cols-2 ${holders.length > 0 ? 'lg:grid-cols-6' : 'lg:grid-cols-5'} gap-4 items-end border-b border-slate-100`}>
+        <div>
+          <label className={labelClass}>Instituição Liquidada</label>
+          <input type="text" required className={inputClass} value={institution} onChange={e => setInstitution(e.target.value)} placeholder="Ex: Banco Master" />
+        </div>
+        <div>
+          <label className={labelClass}>Data do Pagamento</label>
+          <input type="date" required className={inputClass} value={eventDate} onChange={e => setEventDate(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>Valor Pago (R$)</label>
+          <input type="number" required step="0.01" min="0.01" className={inputClass} value={amountPaid || ''} onChange={e => setAmountPaid(parseFloat(e.target.value))} />
+        </div>
+        {holders.length > 0 && (
+          <div>
+            <label className={labelClass}>Titular</label>
+            <select required className={inputClass} value={holderId} onChange={e => setHolderId(e.target.value)}>
+              <option value="">Selecione...</option>
+              {holders.map(holder => <option key={holder.id} value={holder.id}>{holder.name}</option>)}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className={labelClass}>Observação</label>
+          <input type="text" className={inputClass} value={notes} onChange={e => setNotes(e.target.value)} />
+        </div>
+        <button type="submit" className="flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-xl transition-all active:scale-95">
+          <Plus className="w-4 h-4" /> Registrar
+        </button>
+      </form>
+
+      <div className="divide-y divide-slate-100">
+        {events.length === 0 ? (
+          <p className="px-6 py-8 text-center text-slate-400 italic text-sm">Nenhuma garantia recebida registrada.</p>
+        ) : (
+          events.map(event => (
+            <div key={event.id} className="px-6 py-4 flex items-center justify-between gap-4">
+              <div>
+                <div className="text-sm font-bold text-slate-800">{event.institution}</div>
+                <div className="text-[11px] text-slate-400">
+                  Pago em {formatDate(event.eventDate)}
+                  {holders.length > 0 ? ` · ${getHolderName(holders, event.holderId || UNASSIGNED_HOLDER)}` : ''}
+                  {event.notes ? ` · ${event.notes}` : ''}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-bold text-slate-700">{formatCurrency(event.amountPaid)}</span>
+                <button onClick={() => onDelete(event.id)} className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all" title="Excluir">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { FGC_GLOBAL_LIMIT, FgcGlobalCoverage } from '../utils/fgc';
+
+interface Props {
+  totalValue: number;
+  coverage: FgcGlobalCoverage;
+}
+
+// Limite global por CPF - R$ 1 milhão em janela de 4 anos
+export const FGCGlobalCard: React.FC<Props> = ({ totalValue, coverage }) => {
+  const availableCoverage = coverage.remaining;
+  const globalPercentage = availableCoverage > 0 ? Math.min((totalValue / availableCoverage) * 100, 100) : (totalValue > 0 ? 100 : 0);
+  const isGlobalOver = totalValue > availableCoverage;
+  const isGlobalWarning = totalValue > availableCoverage * 0.8 && !isGlobalOver;
+
+  let bgColor = "bg-emerald-50 border-emerald-200";
+  let barColor = "bg-emerald-500";
+  let textColor = "text-emerald-700";
+
+  if (isGlobalOver) {
+    bgColor = "bg-red-50 border-red-200";
+    barColor = "bg-red-500";
+    textColor = "text-red-700";
+  } else if (isGlobalWarning) {
+    bgColor = "bg-amber-50 border-amber-200";
+    barColor = "bg-amber-500";
+    textColor = "text-amber-700";
+  }
+
+  return (
+    <div className={`${bgColor} border rounded-2xl p-6`}>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className={`text-sm font-bold ${textColor} uppercase tracking-tight`}>Limite Global por CPF</h3>
+          <p className="text-2xl font-black text-slate-800">{formatCurrency(totalValue)} <span className="text-sm font-medium text-slate-400">/ {formatCurrency(availableCoverage)} disponíveis</span></p>
+        </div>
+        <span className={`text-xl font-black ${textColor}`}>{globalPercentage.toFixed(1)}%</span>
+      </div>
+      <div className="w-full h-4 bg-slate-200 rounded-full overflow-hidden">
+        <div className={`h-full transition-all duration-500 ${barColor}`} style={{ width: `${globalPercentage}%` }} />
+      </div>
+      {coverage.used > 0 && (
+        <p className="mt-3 text-xs text-slate-600 font-medium">
+          Garantias recebidas nos últimos 4 anos: <strong>{formatCurrency(coverage.used)}</strong> de {formatCurrency(FGC_GLOBAL_LIMIT)}.
+          {coverage.resetDate && <> A cobertura volta a aumentar em <strong>{formatDate(coverage.resetDate)}</strong>.</>}
+        </p>
+      )}
+      {isGlobalOver && (
+        <p className="mt-3 text-xs text-red-600 font-medium">
+          ⚠️ Você ultrapassou o limite global do FGC. O excedente de {formatCurrency(totalValue - availableCoverage)} <strong>não está coberto</strong>.
+        </p>
+      )}
+      {isGlobalWarning && (
+        <p className="mt-3 text-xs text-amber-600 font-medium">
+          ⚡ Você está próximo do limite global do FGC. Considere diversificar em outros tipos de ativos.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Holder } from '../types';
+import { Users, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  holders: Holder[];
+  onAdd: (holder: Omit<Holder, 'id' | 'createdAt'>) => void;
+  onDelete: (id: string) => void;
+}
+
+export const HolderSettings: React.FC<Props> = ({ holders, onAdd, onDelete }) => {
+  const [name, setName] = useState('');
+  const [cpf, setCpf] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    onAdd({ name, cpf });
+    setName('');
+    setCpf('');
+  };
+
+  const inputClass = "w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+  const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Users className="w-5 h-5 text-blue-600" />
+          Titulares
+        </h3>
+        <p className="text-sm text-slate-500 mt-1">
+          Cadastre cada CPF que investe na carteira. O limite do FGC é calculado por titular, e contas conjuntas são divididas pela participação de cada um.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-6 grid grid-cols-1 sm:grid-cols-3 gap-4 items-end border-b border-slate-100">
+        <div>
+          <label className={labelClass}>Nome</label>
+          <input type="text" required className={inputClass} value={name} onChange={e => setName(e.target.value)} placeholder="Ex: Ana" />
+        </div>
+        <div>
+          <label className={labelClass}>CPF (opcional)</label>
+          <input type="text" inputMode="numeric" className={inputClass} value={cpf} onChange={e => setCpf(e.target.value)} placeholder="000.000.000-00" />
+        </div>
+        <button type="submit" className="flex items-center justify-center gap-2 p-3 rounded-xl font-bold text-white bg-blue-600 hover:bg-blue-700 transition-all text-sm">
+          <Plus className="w-4 h-4" /> Adicionar
+        </button>
+      </form>
+
+      <div className="divide-y divide-slate-100">
+        {holders.length === 0 ? (
+          <p className="py-8 text-center text-slate-400 italic text-sm">Nenhum titular cadastrado: a carteira é tratada como de um único CPF.</p>
+        ) : (
+          holders.map(holder => (
+            <div key={holder.id} className="px-6 py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-bold text-slate-800">{holder.name}</p>
+                {holder.cpf && <p className="text-[11px] text-slate-400">{holder.cpf}</p>}
+              </div>
+              <button onClick={() => onDelete(holder.id)} className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all" title="Remover">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
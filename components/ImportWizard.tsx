@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { Investment, MarketRates } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import {
+  APP_EXPORT_RATE_HEADER,
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  detectHeaderRow,
+  guessColumnMapping,
+  parseImportRows,
+  readSpreadsheet
+} from '../utils/importer';
+import { Upload, X, AlertTriangle, CheckCircle2, Loader2, Copy } from 'lucide-react';
+
+interface Props {
+  investments: Investment[];
+  marketRates: MarketRates;
+  onImport: (investments: Investment[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'review';
+
+export const ImportWizard: React.FC<Props> = ({ investments, marketRates, onImport, onClose }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<unknown[][]>([]);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultBroker, setDefaultBroker] = useState('');
+  const [ratesAsFraction, setRatesAsFraction] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const [readError, setReadError] = useState('');
+
+  const headers = rows[headerRow] || [];
+
+  const parsedRows = useMemo(() => {
+    if (step !== 'review') return [];
+    return parseImportRows(rows.slice(headerRow + 1), headerRow + 1, {
+      mapping,
+      defaultBroker,
+      ratesAsFraction,
+      marketRates,
+      existing: investments,
+    });
+  }, [step, rows, headerRow, mapping, defaultBroker, ratesAsFraction, marketRates, investments]);
+
+  const handleFile = async (file: File) => {
+    setReadError('');
+    try {
+      const data = await readSpreadsheet(file);
+      const detected = detectHeaderRow(data);
+      setFileName(file.name);
+      setRows(data);
+      setHeaderRow(detected);
+      setMapping(guessColumnMapping(data[detected] || []));
+      setRatesAsFraction((data[detected] || []).some(h => String(h).trim() === APP_EXPORT_RATE_HEADER));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Erro ao ler planilha:', error);
+      setReadError('Não foi possível ler o arquivo. Verifique se é um CSV ou XLSX válido.');
+    }
+  };
+
+  const changeHeaderRow = (index: number) => {
+    setHeaderRow(index);
+    setMapping(guessColumnMapping(rows[index] || []));
+  };
+
+  const goToReview = () => {
+    const parsed = parseImportRows(rows.slice(headerRow + 1), headerRow + 1, {
+      mapping,
+      defaultBroker,
+      ratesAsFraction,
+      marketRates,
+      existing: investments,
+    });
+    // Pré-seleciona apenas as linhas válidas que não parecem duplicadas
+    setSelected(new Set(parsed.filter(r => r.investment && !r.duplicate).map(r => r.line)));
+    setStep('review');
+  };
+
+  const handleConfirm = async () => {
+    const toImport = parsedRows.filter(r => r.investment && selected.has(r.line)).map(r => r.investment!);
+    if (toImport.length === 0) return;
+    setIsImporting(true);
+    await onImport(toImport);
+    setIsImporting(false);
+  };
+
+  const toggleRow = (line: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line); else next.add(line);
+      return next;
+    });
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(f =>
+    f.required && mapping[f.field] === undefined && !(f.field === 'broker' && defaultBroker.trim())
+  );
+
+  const selectClass = "w-full p-2 bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+  const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1";
+  const validCount = parsedRows.filter(r => r.investment).length;
+  const duplicateCount = parsedRows.filter(r => r.duplicate).length;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-[70] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl border border-slate-100 w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+          <div>
+            <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+              <Upload className="w-5 h-5 text-blue-600" />
+              Importar Posições
+            </h3>
+            <p className="text-xs text-slate-400 mt-0.5">
+              {step === 'upload' ? '1. Arquivo' : step === 'mapping' ? `2. Colunas · ${fileName}` : `3. Revisão · ${fileName}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 transition-colors"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="p-5 overflow-y-auto flex-1">
+          {step === 'upload' && (
+            <label className="py-16 bg-white rounded-2xl border-2 border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400 cursor-pointer hover:border-blue-300 hover:text-blue-500 transition-colors">
+              <Upload className="w-10 h-10 mb-2 opacity-40" />
+              <p className="text-sm font-bold">Selecione um arquivo CSV ou XLSX</p>
+              <p className="text-xs mt-1">Extratos de posição da XP, BTG, Nubank ou a planilha exportada pelo app</p>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])}
+              />
+              {readError && <p className="text-xs text-red-600 font-medium mt-4">{readError}</p>}
+            </label>
+          )}
+
+          {step === 'mapping' && (
+            <div className="space-y-5">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className={labelClass}>Linha do Cabeçalho</label>
+                  <select className={selectClass} value={headerRow} onChange={e => changeHeaderRow(parseInt(e.target.value))}>
+                    {rows.slice(0, 20).map((row, index) => (
+                      <option key={index} value={index}>Linha {index + 1}: {row.filter(c => String(c).trim()).slice(0, 3).join(' | ')}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Corretora Padrão</label>
+                  <input
+                    type="text"
+                    className={selectClass}
+                    placeholder="Usada quando não há coluna"
+                    value={defaultBroker}
+                    onChange={e => setDefaultBroker(e.target.value)}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer self-end pb-2">
+                  <input type="checkbox" className="accent-blue-600" checked={ratesAsFraction} onChange={e => setRatesAsFraction(e.target.checked)} />
+                  Taxas em fração (0,12 = 12%)
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className={labelClass}>{label}{required ? ' *' : ''}</label>
+                    <select
+                      className={selectClass}
+                      value={mapping[field] ?? ''}
+                      onChange={e => setMapping({ ...mapping, [field as ImportField]: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+                    >
+                      <option value="">— Não importar —</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>{String(header) || `Coluna ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {missingRequired.length > 0 && (
+                <p className="text-xs text-amber-600 font-medium">
+                  Campos obrigatórios sem coluna: {missingRequired.map(f => f.label).join(', ')}.
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'review' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-3 text-xs font-bold">
+                <span className="px-3 py-1 bg-emerald-50 text-emerald-600 rounded-full">{validCount} válidas</span>
+                <span className="px-3 py-1 bg-red-50 text-red-600 rounded-full">{parsedRows.length - validCount} com erro</span>
+                <span className="px-3 py-1 bg-amber-50 text-amber-600 rounded-full">{duplicateCount} possíveis duplicatas</span>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-left min-w-[700px]">
+                  <thead className="bg-slate-50/50">
+                    <tr>
+                      <th className="px-3 py-2"></th>
+                      <th className="px-3 py-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Linha</th>
+                      <th className="px-3 py-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Banco / Título</th>
+                      <th className="px-3 py-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Valor</th>
+                      <th className="px-3 py-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Aplicação</th>
+                      <th className="px-3 py-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Vencimento</th>
+                      <th className="px-3 py-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {parsedRows.map(row => (
+                      <tr key={row.line} className={row.investment ? '' : 'bg-red-50/40'}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            className="accent-blue-600"
+                            disabled={!row.investment}
+                            checked={selected.has(row.line)}
+                            onChange={() => toggleRow(row.line)}
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-xs text-slate-400">{row.line}</td>
+                        {row.investment ? (
+                          <>
+                            <td className="px-3 py-2">
+                              <div className="text-sm font-bold text-slate-800">{row.investment.bank}</div>
+                              <div className="text-[10px] text-slate-400 uppercase font-bold">{row.investment.title} · {row.investment.interestRate}{row.investment.type === 'CDI' ? '% CDI' : '% a.a.'} · {row.investment.broker}</div>
+                            </td>
+                            <td className="px-3 py-2 text-sm font-bold text-slate-700">{formatCurrency(row.investment.amount)}</td>
+                            <td className="px-3 py-2 text-sm text-slate-600">{formatDate(row.investment.startDate)}</td>
+                            <td className="px-3 py-2 text-sm text-slate-600">{formatDate(row.investment.dueDate)}</td>
+                            <td className="px-3 py-2">
+                              {row.duplicate ? (
+                                <span className="flex items-center gap-1 text-[11px] font-bold text-amber-600"><Copy className="w-3 h-3" /> Duplicada?</span>
+                              ) : (
+                                <span className="flex items-center gap-1 text-[11px] font-bold text-emerald-600"><CheckCircle2 className="w-3 h-3" /> OK</span>
+                              )}
+                            </td>
+                          </>
+                        ) : (
+                          <td colSpan={5} className="px-3 py-2">
+                            <span className="flex items-start gap-1 text-[11px] text-red-600">
+                              <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" /> {row.errors.join('; ')}
+                            </span>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {step !== 'upload' && (
+          <div className="p-5 border-t border-slate-100 flex items-center justify-between">
+            <button
+              onClick={() => setStep(step === 'review' ? 'mapping' : 'upload')}
+              className="text-xs font-bold text-slate-400 hover:text-slate-600 uppercase tracking-widest"
+            >
+              Voltar
+            </button>
+            {step === 'mapping' ? (
+              <button
+                onClick={goToReview}
+                disabled={missingRequired.length > 0}
+                className={`px-6 py-3 rounded-xl font-bold text-white transition-all ${missingRequired.length > 0 ? 'bg-slate-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 active:scale-95'}`}
+              >
+                Validar Linhas
+              </button>
+            ) : (
+              <button
+                onClick={handleConfirm}
+                disabled={isImporting || selected.size === 0}
+                className={`flex items-center gap-2 px-6 py-3 rounded-xl font-bold text-white transition-all ${isImporting || selected.size === 0 ? 'bg-slate-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 active:scale-95'}`}
+              >
+                {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Importar {selected.size} {selected.size === 1 ? 'ativo' : 'ativos'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
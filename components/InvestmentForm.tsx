@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Investment, InvestmentTitle, InvestmentType, MarketRates } from '../types';
+import { Holder, Investment, InvestmentTitle, InvestmentType, LiquidityType, MarketRates } from '../types';
 import { calculateFutureValue, CalculationResult } from '../utils/calculations';
+import { resolveIncomeTax } from '../utils/taxes';
+import { B3_CUSTODY_FEE, isTesouroTitle } from '../utils/tesouro';
+import { splitEvenly, validateHolderShares } from '../utils/holders';
+import { getLiquidity, LIQUIDITY_LABELS } from '../utils/liquidity';
 import { fetchCustomBanks, addCustomBank, CustomBank } from '../services/bankService';
+import { reportFailure } from '../services/notifications';
 import { PlusCircle, Pencil, Info, Plus } from 'lucide-react';
 
 interface Props {
@@ -9,6 +14,7 @@ interface Props {
   onUpdate: (investment: Investment) => void;
   marketRates: MarketRates;
   editingInvestment: Investment | null;
+  holders: Holder[];
 }
 
 const MAJOR_BROKERS = [
@@ -36,7 +42,7 @@ const MAJOR_CONGLOMERATES = [
   "Daycoval", "BMG", "Original", "ABC Brasil", "Pine", "Bari", "Sofisa"
 ].sort();
 
-export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates, editingInvestment }) => {
+export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates, editingInvestment, holders }) => {
   const [formData, setFormData] = useState<Partial<Investment>>({
     broker: '',
     conglomerate: '',
@@ -47,6 +53,7 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
     quantity: 1,
     interestRate: 100,
     incomeTax: 15,
+    manualIncomeTax: false,
     startDate: new Date().toISOString().split('T')[0],
     dueDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
   });
@@ -64,7 +71,9 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
 
   // Load custom banks on mount
   useEffect(() => {
-    fetchCustomBanks().then(setCustomBanks);
+    fetchCustomBanks().then(result => {
+      if (!reportFailure(result)) setCustomBanks(result.data);
+    });
   }, []);
 
   useEffect(() => {
@@ -85,6 +94,7 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
         quantity: 1,
         interestRate: 100,
         incomeTax: 15,
+        manualIncomeTax: false,
         startDate: new Date().toISOString().split('T')[0],
         dueDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       });
@@ -96,13 +106,46 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
     setFvPreview(results);
   }, [formData, marketRates]);
 
+  const taxInfo = resolveIncomeTax(formData);
+  const liquidity = getLiquidity(formData);
+  const isTesouro = isTesouroTitle(formData.title);
+  const holderShares = formData.holders || [];
+  const holderError = holders.length > 0 && holderShares.length === 0
+    ? 'Selecione ao menos um titular'
+    : validateHolderShares(holderShares);
+
+  // Marcar/desmarcar um titular redistribui a aplicação em partes iguais
+  const toggleHolder = (holderId: string) => {
+    const ids = holderShares.some(s => s.holderId === holderId)
+      ? holderShares.filter(s => s.holderId !== holderId).map(s => s.holderId)
+      : [...holderShares.map(s => s.holderId), holderId];
+    setFormData({ ...formData, holders: splitEvenly(ids) });
+  };
+
+  const updateHolderPercentage = (holderId: string, percentage: number) => {
+    setFormData({ ...formData, holders: holderShares.map(s => s.holderId === holderId ? { ...s, percentage } : s) });
+  };
+
+  // No Tesouro o valor aplicado é sempre PU × quantidade de títulos
+  const updateTesouroPosition = (unitPrice: number | undefined, quantity: number | undefined) => {
+    setFormData({
+      ...formData,
+      unitPrice,
+      quantity,
+      amount: unitPrice && quantity ? Math.round(unitPrice * quantity * 100) / 100 : 0,
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.broker || !formData.bank || !formData.amount) return;
+    if (!formData.broker || !formData.bank || !formData.amount || holderError) return;
 
     const investmentData: Investment = {
       ...(formData as Investment),
       id: editingInvestment ? editingInvestment.id : crypto.randomUUID(),
+      incomeTax: taxInfo.rate,
+      manualIncomeTax: taxInfo.manual,
+      unitPrice: isTesouro ? formData.unitPrice : undefined,
       futureValue: fvPreview.gross,
       netFutureValue: fvPreview.net,
       createdAt: editingInvestment ? editingInvestment.createdAt : Date.now(),
@@ -124,6 +167,7 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
       quantity: 1,
       interestRate: 100,
       incomeTax: 15,
+      manualIncomeTax: false,
       startDate: new Date().toISOString().split('T')[0],
       dueDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     });
@@ -169,8 +213,9 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
                   onChange={e => setNewBrokerName(e.target.value)}
                   onBlur={async () => {
                     if (newBrokerName.trim()) {
-                      const saved = await addCustomBank(newBrokerName, true);
-                      if (saved) {
+                      const result = await addCustomBank(newBrokerName, true);
+                      if (!reportFailure(result)) {
+                        const saved = result.data;
                         setCustomBanks(prev => [...prev, saved]);
                         setFormData({ ...formData, broker: saved.name });
                       }
@@ -221,8 +266,9 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
                   onChange={e => setNewConglomerateName(e.target.value)}
                   onBlur={async () => {
                     if (newConglomerateName.trim()) {
-                      const saved = await addCustomBank(newConglomerateName, false, true, false);
-                      if (saved) {
+                      const result = await addCustomBank(newConglomerateName, false, true, false);
+                      if (!reportFailure(result)) {
+                        const saved = result.data;
                         setCustomBanks(prev => [...prev, saved]);
                         setFormData({ ...formData, conglomerate: saved.name });
                       }
@@ -273,8 +319,9 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
                   onChange={e => setNewBankName(e.target.value)}
                   onBlur={async () => {
                     if (newBankName.trim()) {
-                      const saved = await addCustomBank(newBankName, false, false, false);
-                      if (saved) {
+                      const result = await addCustomBank(newBankName, false, false, false);
+                      if (!reportFailure(result)) {
+                        const saved = result.data;
                         setCustomBanks(prev => [...prev, saved]);
                         setFormData({ ...formData, bank: saved.name });
                       }
@@ -325,8 +372,9 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
                   onChange={e => setNewTitleName(e.target.value)}
                   onBlur={async () => {
                     if (newTitleName.trim()) {
-                      const saved = await addCustomBank(newTitleName, false, false, true);
-                      if (saved) {
+                      const result = await addCustomBank(newTitleName, false, false, true);
+                      if (!reportFailure(result)) {
+                        const saved = result.data;
                         setCustomBanks(prev => [...prev, saved]);
                         setFormData({ ...formData, title: saved.name });
                       }
@@ -350,7 +398,12 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
                     if (e.target.value === '__ADD_NEW__') {
                       setShowCustomTitle(true);
                     } else {
-                      setFormData({ ...formData, title: e.target.value });
+                      const title = e.target.value;
+                      // Tesouro: LTN é prefixada e NTN-B é atrelada ao IPCA
+                      const type = title === InvestmentTitle.LTN ? InvestmentType.PREFIXADO
+                        : title === InvestmentTitle.NTNB ? InvestmentType.IPCA
+                          : formData.type;
+                      setFormData({ ...formData, title, type });
                     }
                   }}
                 >
@@ -378,15 +431,34 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
             </div>
           </div>
 
-          <div>
-            <label className={labelClass}>Valor Aplicado (R$)</label>
-            <input type="number" required step="0.01" className={inputClass} value={formData.amount || ''} onChange={e => setFormData({ ...formData, amount: parseFloat(e.target.value) })} />
-          </div>
+          {isTesouro ? (
+            <>
+              <div>
+                <label className={labelClass}>PU de Compra (R$)</label>
+                <input type="number" required step="0.01" min="0.01" className={inputClass} value={formData.unitPrice || ''} onChange={e => updateTesouroPosition(parseFloat(e.target.value), formData.quantity)} />
+              </div>
 
-          <div>
-            <label className={labelClass}>Quantidade (Informal)</label>
-            <input type="number" required step="1" min="1" className={inputClass} value={formData.quantity || ''} onChange={e => setFormData({ ...formData, quantity: parseInt(e.target.value) })} />
-          </div>
+              <div>
+                <label className={labelClass}>Quantidade de Títulos</label>
+                <input type="number" required step="0.01" min="0.01" className={inputClass} value={formData.quantity || ''} onChange={e => updateTesouroPosition(formData.unitPrice, parseFloat(e.target.value))} />
+                <p className="text-[10px] text-slate-400 mt-1">
+                  Valor aplicado: {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(formData.amount || 0)}
+                </p>
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <label className={labelClass}>Valor Aplicado (R$)</label>
+                <input type="number" required step="0.01" className={inputClass} value={formData.amount || ''} onChange={e => setFormData({ ...formData, amount: parseFloat(e.target.value) })} />
+              </div>
+
+              <div>
+                <label className={labelClass}>Quantidade (Informal)</label>
+                <input type="number" required step="1" min="1" className={inputClass} value={formData.quantity || ''} onChange={e => setFormData({ ...formData, quantity: parseInt(e.target.value) })} />
+              </div>
+            </>
+          )}
 
           <div>
             <label className={labelClass}>Taxa de Juros (%)</label>
@@ -409,14 +481,103 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
           </div>
 
           <div>
-            <label className={labelClass}>IR Estimado (%)</label>
+            <label className={labelClass}>Liquidez</label>
+            <select
+              className={selectClass}
+              value={liquidity.type}
+              onChange={e => {
+                const type = e.target.value as LiquidityType;
+                setFormData({ ...formData, liquidity: type === 'grace_period' ? { type, availableFrom: liquidity.availableFrom || formData.startDate } : { type } });
+              }}
+            >
+              {(Object.keys(LIQUIDITY_LABELS) as LiquidityType[]).map(type => <option key={type} value={type}>{LIQUIDITY_LABELS[type]}</option>)}
+            </select>
+          </div>
+
+          {liquidity.type === 'grace_period' && (
+            <div>
+              <label className={labelClass}>Fim da Carência</label>
+              <input
+                type="date"
+                required
+                className={inputClass}
+                value={liquidity.availableFrom || ''}
+                min={formData.startDate}
+                max={formData.dueDate}
+                onChange={e => setFormData({ ...formData, liquidity: { type: 'grace_period', availableFrom: e.target.value } })}
+              />
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between">
+              <label className={labelClass}>Imposto de Renda (%)</label>
+              <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="accent-blue-600"
+                  checked={!!formData.manualIncomeTax}
+                  disabled={taxInfo.exempt}
+                  onChange={e => setFormData({ ...formData, manualIncomeTax: e.target.checked, incomeTax: taxInfo.rate })}
+                />
+                Manual
+              </label>
+            </div>
             <div className="relative">
-              <input type="number" required step="0.5" min="0" max="22.5" className={inputClass} value={formData.incomeTax || ''} onChange={e => setFormData({ ...formData, incomeTax: parseFloat(e.target.value) })} />
-              <span className="absolute right-3 top-3 text-[10px] text-slate-400 bg-white pl-1 font-bold">% IR</span>
+              <input
+                type="number"
+                step="0.5"
+                min="0"
+                max="22.5"
+                disabled={!formData.manualIncomeTax || taxInfo.exempt}
+                className={`${inputClass} disabled:bg-slate-50 disabled:text-slate-500`}
+                value={formData.manualIncomeTax && !taxInfo.exempt ? (formData.incomeTax ?? '') : taxInfo.rate}
+                onChange={e => setFormData({ ...formData, incomeTax: parseFloat(e.target.value) })}
+              />
+              <span className="absolute right-3 top-3 text-[10px] text-slate-400 bg-transparent pl-1 font-bold">% IR</span>
             </div>
+            <p className="text-[10px] text-slate-400 mt-1">
+              {taxInfo.exempt ? 'Título isento para pessoa física' : taxInfo.manual ? 'Alíquota definida manualmente' : `Tabela regressiva: ${taxInfo.label}`}
+            </p>
           </div>
         </div>
 
+        {holders.length > 0 && (
+          <div>
+            <label className={labelClass}>Titularidade</label>
+            <div className="flex flex-wrap gap-3">
+              {holders.map(holder => {
+                const share = holderShares.find(s => s.holderId === holder.id);
+                return (
+                  <div key={holder.id} className={`flex items-center gap-2 px-3 py-2 rounded-xl border transition-all ${share ? 'border-blue-200 bg-blue-50/50' : 'border-slate-200'}`}>
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+                      <input type="checkbox" className="accent-blue-600" checked={!!share} onChange={() => toggleHolder(holder.id)} />
+                      {holder.name}
+                    </label>
+                    {share && holderShares.length > 1 && (
+                      <div className="relative w-24">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          max="100"
+                          className="w-full p-1.5 pr-6 bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                          value={share.percentage}
+                          onChange={e => updateHolderPercentage(holder.id, parseFloat(e.target.value) || 0)}
+                        />
+                        <span className="absolute right-2 top-2 text-[10px] text-slate-400 font-bold">%</span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className={`text-[10px] mt-1 ${holderError ? 'text-red-500 font-bold' : 'text-slate-400'}`}>
+              {holderError || (holderShares.length > 1 ? 'Conta conjunta: o FGC considera a parte de cada titular' : 'Titular único')}
+            </p>
+          </div>
+        )}
+
         <div className="mt-6 p-5 bg-blue-50 rounded-2xl flex flex-col items-center justify-between border border-blue-100 gap-4">
           <div className="flex items-center gap-3 w-full sm:w-auto">
             <div className="bg-blue-600 p-2.5 rounded-xl text-white">
@@ -427,6 +588,14 @@ export const InvestmentForm: React.FC<Props> = ({ onAdd, onUpdate, marketRates,
               <p className="text-2xl font-black text-blue-900 leading-none">
                 {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(fvPreview.net)}
               </p>
+              <p className="text-[10px] text-blue-500 font-bold mt-1">
+                IR {taxInfo.rate}% · {taxInfo.exempt ? 'Isento' : taxInfo.label}
+              </p>
+              {isTesouro && (
+                <p className="text-[10px] text-blue-500 font-bold">
+                  Custódia B3 ({B3_CUSTODY_FEE.toFixed(2).replace('.', ',')}% a.a.): {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(fvPreview.custodyFee || 0)}
+                </p>
+              )}
             </div>
           </div>
           <button
@@ -0,0 +1,75 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import { AuditEntry, Investment } from '../types';
+import { fetchAuditTrail } from '../services/auditService';
+import { reportFailure } from '../services/notifications';
+import { formatCurrency } from '../utils/calculations';
+import { groupRecalculations } from '../utils/audit';
+import { AuditEntryCard, RecalculationGroup } from './AuditLogPanel';
+
+interface Props {
+  investment: Investment;
+  onClose: () => void;
+  onRestore: (version: Investment) => void;
+}
+
+// Versões de um investimento, da mais recente para a mais antiga; qualquer uma anterior pode voltar a ser a atual
+export const InvestmentHistoryDrawer: React.FC<Props> = ({ investment, onClose, onRestore }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchAuditTrail({ entityType: 'investment', entityId: investment.id });
+    setIsLoading(false);
+    if (reportFailure(result, load)) return;
+    setEntries(result.data);
+  }, [investment]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const currentVersion = entries.find(entry => entry.cause !== 'recalculation');
+
+  const handleRestore = (entry: AuditEntry) => {
+    if (!confirm('Restaurar esta versão? Os valores projetados serão recalculados com as taxas atuais.')) return;
+    onRestore(entry.after as unknown as Investment);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-[70] flex justify-end" onClick={onClose}>
+      <div className="bg-white h-full w-full max-w-md shadow-2xl border-l border-slate-100 flex flex-col animate-in slide-in-from-right duration-200" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+          <div>
+            <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+              <History className="w-5 h-5 text-blue-600" />
+              Histórico
+            </h3>
+            <p className="text-xs text-slate-400">{investment.title} {investment.bank} · {formatCurrency(investment.amount)}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 transition-colors"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="p-5 space-y-2 overflow-y-auto flex-1">
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-slate-400" /></div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 py-8">Nenhuma alteração registrada para este investimento.</p>
+          ) : (
+            groupRecalculations(entries).map(([entry, ...rest]) => entry.cause === 'recalculation' ? (
+              <RecalculationGroup key={entry.id} entries={[entry, ...rest]} />
+            ) : (
+              <AuditEntryCard
+                key={entry.id}
+                entry={entry}
+                // A mais recente (fora os recálculos) já é a versão atual; a da exclusão volta pela lixeira
+                onRestore={entry !== currentVersion && entry.after && entry.action !== 'delete' ? () => handleRestore(entry) : undefined}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
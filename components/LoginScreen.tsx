@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { sendMagicLink, signInWithPassword, signUpWithPassword } from '../services/authService';
+import { Loader2, Mail, KeyRound } from 'lucide-react';
+
+type Mode = 'password' | 'magicLink';
+
+export const LoginScreen: React.FC = () => {
+  const [mode, setMode] = useState<Mode>('password');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<string | null>, successNotice?: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    const message = await action();
+    setIsSubmitting(false);
+    if (message) setError(message);
+    else if (successNotice) setNotice(successNotice);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    if (mode === 'magicLink') {
+      run(() => sendMagicLink(email), `Enviamos um link de acesso para ${email.trim()}. Abra-o neste navegador.`);
+    } else {
+      run(() => signInWithPassword(email, password));
+    }
+  };
+
+  const handleSignUp = () => {
+    if (!email.trim() || password.length < 6) {
+      setError('Informe e-mail e uma senha com pelo menos 6 caracteres.');
+      return;
+    }
+    run(() => signUpWithPassword(email, password), 'Conta criada. Confirme o e-mail, se solicitado, e entre.');
+  };
+
+  const inputClass = "w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+  const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1";
+
+  return (
+    <div className="flex min-h-screen bg-slate-50 items-center justify-center p-6">
+      <div className="w-full max-w-sm bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl overflow-hidden shadow-sm border border-blue-100 shrink-0">
+            <img src="/app-icon.jpg" alt="Lídia Investe" className="w-full h-full object-cover" />
+          </div>
+          <div className="flex flex-col">
+            <span className="text-xl font-black text-slate-800 tracking-tight">Lídia Investe</span>
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest -mt-1">Entre para ver sua carteira</span>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="flex bg-slate-50 rounded-xl border border-slate-200 p-1">
+            <button type="button" onClick={() => setMode('password')} className={`flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${mode === 'password' ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-white'}`}>
+              <KeyRound className="w-3.5 h-3.5" /> Senha
+            </button>
+            <button type="button" onClick={() => setMode('magicLink')} className={`flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${mode === 'magicLink' ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-white'}`}>
+              <Mail className="w-3.5 h-3.5" /> Link por E-mail
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className={labelClass}>E-mail</label>
+              <input type="email" required autoComplete="email" className={inputClass} value={email} onChange={e => setEmail(e.target.value)} />
+            </div>
+            {mode === 'password' && (
+              <div>
+                <label className={labelClass}>Senha</label>
+                <input type="password" required autoComplete="current-password" className={inputClass} value={password} onChange={e => setPassword(e.target.value)} />
+              </div>
+            )}
+
+            {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+            {notice && <p className="text-xs text-emerald-600 font-medium">{notice}</p>}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`w-full flex items-center justify-center gap-2 px-6 py-3 rounded-xl font-bold text-white transition-all shadow-lg ${isSubmitting ? 'bg-slate-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 active:scale-95'}`}
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              {mode === 'password' ? 'Entrar' : 'Enviar Link'}
+            </button>
+          </form>
+
+          {mode === 'password' && (
+            <button type="button" onClick={handleSignUp} disabled={isSubmitting} className="w-full text-xs font-bold text-blue-600 hover:text-blue-700">
+              Criar conta com este e-mail e senha
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
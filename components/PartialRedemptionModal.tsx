@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { Investment, MarketRates, PartialRedemption } from '../types';
+import { calculateEarlyRedemption, formatCurrency, formatDate } from '../utils/calculations';
+import { canRedeemOn, describeLiquidity, getRedemptionPrincipal, getRemainingPrincipal, sortRedemptions, validatePartialRedemption } from '../utils/liquidity';
+import { ArrowDownToLine, Trash2, X } from 'lucide-react';
+
+interface Props {
+  investment: Investment;
+  marketRates: MarketRates;
+  onClose: () => void;
+  onSave: (partialRedemptions: PartialRedemption[]) => void;
+}
+
+// Registra resgates parciais; em ordem de data, cada um consome o principal proporcional ao valor bruto da posição
+export const PartialRedemptionModal: React.FC<Props> = ({ investment, marketRates, onClose, onSave }) => {
+  const dueDate = investment.dueDate.split('T')[0];
+  const today = new Date().toISOString().split('T')[0];
+  const [redemptionDate, setRedemptionDate] = useState(today < dueDate ? today : dueDate);
+  const [grossAmount, setGrossAmount] = useState('');
+  const [netAmount, setNetAmount] = useState('');
+
+  const redemptions = sortRedemptions(investment.partialRedemptions);
+  const remaining = getRemainingPrincipal(investment);
+
+  // Posição na data escolhida, já descontados os resgates anteriores
+  const position = useMemo(
+    () => calculateEarlyRedemption(investment, marketRates, redemptionDate),
+    [investment, marketRates, redemptionDate]
+  );
+  const principalAtDate = getRemainingPrincipal(investment, redemptionDate);
+
+  const gross = Number(grossAmount) || 0;
+  const fraction = position.gross > 0 ? Math.min(1, gross / position.gross) : 0;
+  const suggestedPrincipal = getRedemptionPrincipal(principalAtDate, gross, position.gross);
+  // IOF e IR incidem sobre a parte de rendimento do resgate, na mesma proporção da posição
+  const estimatedNet = position.net * fraction;
+
+  const draft: Omit<PartialRedemption, 'id'> = {
+    date: redemptionDate,
+    grossAmount: gross,
+    principalAmount: suggestedPrincipal,
+    netAmount: netAmount === '' ? estimatedNet : Number(netAmount),
+  };
+  const error = grossAmount === ''
+    ? null
+    : validatePartialRedemption(investment, draft) || (gross > position.gross + 0.005 ? 'O valor excede a posição bruta na data.' : null);
+
+  const handleAdd = () => {
+    if (grossAmount === '' || error) return;
+    onSave([...redemptions, { ...draft, id: crypto.randomUUID() }]);
+    setGrossAmount('');
+    setNetAmount('');
+  };
+
+  const inputClass = 'w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-[70] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl border border-slate-100 w-full max-w-lg overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+          <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+            <ArrowDownToLine className="w-5 h-5 text-blue-600" />
+            Resgates Parciais
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 transition-colors"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="p-5 space-y-5 max-h-[80vh] overflow-y-auto">
+          <div>
+            <p className="text-sm font-bold text-slate-800">{investment.title} {investment.bank}</p>
+            <p className="text-xs text-slate-400">
+              Liquidez {describeLiquidity(investment).toLowerCase()} · {formatCurrency(remaining)} restantes de {formatCurrency(investment.amount)} aplicados
+            </p>
+          </div>
+
+          {redemptions.length > 0 && (
+            <div className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+              {redemptions.map(r => (
+                <div key={r.id} className="flex items-center justify-between px-3 py-2">
+                  <div>
+                    <p className="text-xs font-bold text-slate-700">{formatDate(r.date)} · {formatCurrency(r.grossAmount)} bruto</p>
+                    <p className="text-[10px] text-slate-400">
+                      {formatCurrency(r.principalAmount)} de principal
+                      {r.netAmount !== undefined && ` · ${formatCurrency(r.netAmount)} líquido`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onSave(redemptions.filter(other => other.id !== r.id))}
+                    className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all"
+                    title="Excluir resgate"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {remaining <= 0 ? (
+            <p className="text-xs text-slate-500">Todo o principal já foi resgatado.</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Data do Resgate</label>
+                  <input
+                    type="date"
+                    className={inputClass}
+                    value={redemptionDate}
+                    min={investment.startDate.split('T')[0]}
+                    max={dueDate}
+                    onChange={e => e.target.value && setRedemptionDate(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Valor Bruto</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={`Até ${position.gross.toFixed(2)}`}
+                    className={inputClass}
+                    value={grossAmount}
+                    onChange={e => setGrossAmount(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Principal Consumido</label>
+                  <input
+                    type="number"
+                    readOnly
+                    className={inputClass.replace('bg-white', 'bg-slate-50 text-slate-500')}
+                    value={suggestedPrincipal.toFixed(2)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Líquido Recebido</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={estimatedNet.toFixed(2)}
+                    className={inputClass}
+                    value={netAmount}
+                    onChange={e => setNetAmount(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-[10px] text-slate-400">
+                Posição bruta em {formatDate(redemptionDate)}: {formatCurrency(position.gross)}. O resgate consome o principal
+                na proporção do valor retirado; o líquido em branco usa a estimativa já descontados IOF e IR.
+              </p>
+              {!canRedeemOn(investment, redemptionDate) && !error && (
+                <p className="text-[11px] text-amber-700 bg-amber-50 rounded-lg p-2">Esta aplicação não permite resgate nesta data.</p>
+              )}
+              {error && <p className="text-[11px] text-red-600 bg-red-50 rounded-lg p-2">{error}</p>}
+              <button
+                onClick={handleAdd}
+                disabled={grossAmount === '' || !!error}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 disabled:opacity-50 transition-all"
+              >
+                <ArrowDownToLine className="w-4 h-4" />
+                Registrar resgate parcial
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
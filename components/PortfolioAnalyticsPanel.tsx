@@ -0,0 +1,110 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { formatCurrency } from '../utils/calculations';
+import { describeIndexerRate, PortfolioAnalytics } from '../utils/analytics';
+
+interface Props {
+  analytics: PortfolioAnalytics;
+}
+
+const formatPercent = (value: number) => `${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}%`;
+
+const BAR_COLORS: Record<string, string> = {
+  portfolio: 'bg-blue-600',
+  cdi: 'bg-emerald-500',
+  poupanca: 'bg-amber-500',
+  ipca: 'bg-slate-400',
+};
+
+// Rentabilidade anualizada da carteira e comparação com CDI, poupança e IPCA nos mesmos prazos
+export const PortfolioAnalyticsPanel: React.FC<Props> = ({ analytics }) => {
+  if (analytics.principal <= 0) return null;
+
+  const portfolio = analytics.benchmarks.find(b => b.id === 'portfolio');
+  const maxYield = Math.max(...analytics.benchmarks.map(b => b.annualYield), 0.01);
+
+  const metrics = [
+    { label: 'Rentabilidade Líquida', value: `${formatPercent(analytics.annualNetYield)} a.a.`, detail: 'Taxa interna de retorno, após IR' },
+    { label: 'Rentabilidade Real', value: `IPCA + ${formatPercent(analytics.realYield)}`, detail: 'Acima da inflação realizada e projetada' },
+    {
+      label: 'Prazo Médio',
+      value: `${analytics.durationYears.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} ${analytics.durationYears < 2 ? 'ano' : 'anos'}`,
+      detail: 'Até o vencimento, ponderado pelo valor aplicado',
+    },
+  ];
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-50 text-blue-600 rounded-xl"><BarChart3 className="w-5 h-5" /></div>
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">Análise da Carteira</h3>
+          <p className="text-xs text-slate-400">Posições abertas, da aplicação ao vencimento</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {metrics.map(metric => (
+          <div key={metric.label} className="p-4 bg-slate-50 rounded-xl">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{metric.label}</p>
+            <p className="text-xl font-black text-slate-800 mt-1">{metric.value}</p>
+            <p className="text-[10px] text-slate-400 mt-1">{metric.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Taxa Média por Indexador</p>
+          <div className="divide-y divide-slate-100">
+            {analytics.byIndexer.map(indexer => (
+              <div key={indexer.type} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-bold text-slate-700">{indexer.type}</p>
+                  <p className="text-[10px] text-slate-400">
+                    {formatCurrency(indexer.principal)} · {formatPercent((indexer.principal / analytics.principal) * 100)} da carteira
+                  </p>
+                </div>
+                <p className="text-sm font-black text-blue-700">{describeIndexerRate(indexer.type, indexer.averageRate)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Comparação nos Mesmos Prazos</p>
+          <div className="space-y-3">
+            {analytics.benchmarks.map(benchmark => {
+              const difference = portfolio && benchmark.id !== 'portfolio' ? portfolio.finalValue - benchmark.finalValue : null;
+              return (
+                <div key={benchmark.id}>
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-bold text-slate-600">{benchmark.label}</span>
+                    <span className="font-black text-slate-800">{formatPercent(benchmark.annualYield)} a.a.</span>
+                  </div>
+                  <div className="h-2 bg-slate-100 rounded-full mt-1 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${BAR_COLORS[benchmark.id]}`}
+                      style={{ width: `${Math.max(0, (benchmark.annualYield / maxYield) * 100)}%` }}
+                    />
+                  </div>
+                  <p className="text-[10px] text-slate-400 mt-0.5">
+                    {formatCurrency(benchmark.finalValue)} nos vencimentos
+                    {difference !== null && (
+                      <span className={difference >= 0 ? 'text-emerald-600 font-bold' : 'text-red-600 font-bold'}>
+                        {' '}· carteira {difference >= 0 ? '+' : ''}{formatCurrency(difference)}
+                      </span>
+                    )}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-slate-400 mt-3">
+            Cada índice recebe o mesmo valor nas mesmas datas de aplicação e vencimento de cada posição. Poupança sem TR; CDI com IR pela tabela regressiva.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Investment, MarketRates, RateCurveVertex } from '../types';
+import { calculateFutureValue, formatCurrency } from '../utils/calculations';
+import { LineChart as LineChartIcon, Plus, Trash2, Loader2 } from 'lucide-react';
+
+interface Props {
+  investments: Investment[];
+  marketRates: MarketRates;
+  onSave: (curve: RateCurveVertex[]) => Promise<void>;
+}
+
+export const RateCurvePanel: React.FC<Props> = ({ investments, marketRates, onSave }) => {
+  const [draft, setDraft] = useState<RateCurveVertex[]>(marketRates.curve || []);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(marketRates.curve || []);
+  }, [marketRates.curve]);
+
+  const updateVertex = (index: number, changes: Partial<RateCurveVertex>) => {
+    setDraft(prev => prev.map((v, i) => i === index ? { ...v, ...changes } : v));
+  };
+
+  // Próximo vértice: 1º de janeiro do ano seguinte ao último (padrão Focus)
+  const addVertex = () => {
+    const lastYear = draft.length > 0
+      ? parseInt(draft[draft.length - 1].effectiveDate.slice(0, 4))
+      : new Date().getFullYear();
+    const last = draft[draft.length - 1];
+    setDraft([...draft, {
+      effectiveDate: `${lastYear + 1}-01-01`,
+      cdi: last ? last.cdi : marketRates.cdi,
+      ipca: last ? last.ipca : marketRates.ipca,
+    }]);
+  };
+
+  // Compara a projeção da carteira com a curva salva e com o rascunho
+  const preview = useMemo(() => {
+    const draftRates = { ...marketRates, curve: draft };
+    const totals = { current: 0, draft: 0 };
+    investments.forEach(inv => {
+      totals.current += calculateFutureValue(inv, marketRates).net;
+      totals.draft += calculateFutureValue(inv, draftRates).net;
+    });
+    return totals;
+  }, [investments, marketRates, draft]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const sorted = [...draft]
+      .filter(v => v.effectiveDate)
+      .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+    await onSave(sorted);
+    setIsSaving(false);
+  };
+
+  const inputClass = "w-full p-2 bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+  const difference = preview.draft - preview.current;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <LineChartIcon className="w-5 h-5 text-blue-600" />
+          Curva de Juros Projetada
+        </h3>
+        <p className="text-sm text-slate-500 mt-1">
+          Expectativas de CDI e IPCA por período (ex.: Focus ou DI futuro). Cada vértice vale até o próximo; antes do primeiro, usa-se a taxa atual.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">A partir de</th>
+              <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">CDI (% a.a.)</th>
+              <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">IPCA (% a.a.)</th>
+              <th className="pb-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.length === 0 ? (
+              <tr><td colSpan={4} className="py-6 text-center text-slate-400 italic text-sm">Sem curva: a projeção usa as taxas atuais para todos os prazos.</td></tr>
+            ) : (
+              draft.map((vertex, index) => (
+                <tr key={index}>
+                  <td className="pr-2 py-1"><input type="date" className={inputClass} value={vertex.effectiveDate} onChange={e => updateVertex(index, { effectiveDate: e.target.value })} /></td>
+                  <td className="pr-2 py-1"><input type="number" step="0.01" className={inputClass} value={vertex.cdi} onChange={e => updateVertex(index, { cdi: parseFloat(e.target.value) || 0 })} /></td>
+                  <td className="pr-2 py-1"><input type="number" step="0.01" className={inputClass} value={vertex.ipca} onChange={e => updateVertex(index, { ipca: parseFloat(e.target.value) || 0 })} /></td>
+                  <td className="py-1 text-right">
+                    <button onClick={() => setDraft(draft.filter((_, i) => i !== index))} className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all" title="Remover">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+
+        <button onClick={addVertex} className="flex items-center gap-2 text-xs font-bold text-blue-600 hover:text-blue-700">
+          <Plus className="w-4 h-4" /> Adicionar vértice
+        </button>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 p-4 bg-blue-50/50 rounded-xl border border-blue-100">
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Líquido Futuro (Atual)</p>
+            <p className="text-sm font-black text-slate-800">{formatCurrency(preview.current)}</p>
+          </div>
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Com a Curva Editada</p>
+            <p className="text-sm font-black text-blue-700">{formatCurrency(preview.draft)}</p>
+          </div>
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Diferença</p>
+            <p className={`text-sm font-black ${difference < 0 ? 'text-red-600' : 'text-emerald-600'}`}>{formatCurrency(difference)}</p>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className={`flex items-center gap-2 px-6 py-3 rounded-xl font-bold text-white transition-all shadow-lg ${isSaving ? 'bg-slate-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 active:scale-95'}`}
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Salvar Curva
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
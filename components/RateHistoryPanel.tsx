@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { RateHistoryEntry } from '../types';
+import { formatDate } from '../utils/calculations';
+import { parseRateHistory } from '../utils/rates';
+import { History, Plus, Trash2, ClipboardPaste } from 'lucide-react';
+
+interface Props {
+  history: RateHistoryEntry[];
+  onSave: (entries: Omit<RateHistoryEntry, 'id'>[]) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+export const RateHistoryPanel: React.FC<Props> = ({ history, onSave, onDelete }) => {
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [cdi, setCdi] = useState('');
+  const [ipca, setIpca] = useState('');
+  const [showPaste, setShowPaste] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+  const [pasteMonthly, setPasteMonthly] = useState(true);
+  const [pasteErrors, setPasteErrors] = useState<string[]>([]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!month || cdi === '' || ipca === '') return;
+
+    await onSave([{ effectiveDate: `${month}-01`, cdi: parseFloat(cdi), ipca: parseFloat(ipca) }]);
+    setCdi('');
+    setIpca('');
+  };
+
+  const handlePaste = async () => {
+    const { entries, errors } = parseRateHistory(pasteText, pasteMonthly);
+    setPasteErrors(errors);
+    if (entries.length === 0) return;
+
+    await onSave(entries);
+    if (errors.length === 0) {
+      setPasteText('');
+      setShowPaste(false);
+    }
+  };
+
+  const inputClass = "w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+  const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1";
+  const sortedHistory = [...history].sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" />
+            Histórico de Taxas
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">Períodos passados são corrigidos pelo CDI e IPCA realizados; apenas o futuro usa a projeção.</p>
+        </div>
+        <button
+          onClick={() => setShowPaste(!showPaste)}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-600 rounded-xl text-xs font-bold hover:bg-blue-100 transition-all active:scale-95 shrink-0"
+        >
+          <ClipboardPaste className="w-4 h-4" />
+          <span className="hidden sm:inline">Colar Série</span>
+        </button>
+      </div>
+
+      {showPaste && (
+        <div className="p-6 border-b border-slate-100 space-y-3">
+          <p className="text-xs text-slate-500">
+            Uma linha por mês no formato <strong>mês; CDI; IPCA</strong> (ex.: <code>01/2024; 0,97; 0,42</code>). Também aceita colunas copiadas do Excel.
+          </p>
+          <textarea
+            className={`${inputClass} font-mono h-40`}
+            value={pasteText}
+            onChange={e => setPasteText(e.target.value)}
+            placeholder={'01/2024;0,97;0,42\n02/2024;0,80;0,83'}
+          />
+          <div className="flex items-center justify-between gap-4">
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+              <input type="checkbox" className="accent-blue-600" checked={pasteMonthly} onChange={e => setPasteMonthly(e.target.checked)} />
+              Valores mensais (% a.m.)
+            </label>
+            <button onClick={handlePaste} className="px-5 py-2.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-xl transition-all active:scale-95">
+              Importar
+            </button>
+          </div>
+          {pasteErrors.length > 0 && (
+            <div className="p-3 bg-red-50 rounded-xl border border-red-100 text-[11px] text-red-700 space-y-1">
+              <p className="font-bold">Linhas não reconhecidas:</p>
+              {pasteErrors.map(err => <p key={err}>{err}</p>)}
+            </div>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="p-6 grid grid-cols-1 sm:grid-cols-4 gap-4 items-end border-b border-slate-100">
+        <div>
+          <label className={labelClass}>Mês de Vigência</label>
+          <input type="month" required className={inputClass} value={month} onChange={e => setMonth(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>CDI (% a.a.)</label>
+          <input type="number" required step="0.01" className={inputClass} value={cdi} onChange={e => setCdi(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>IPCA (% a.a.)</label>
+          <input type="number" required step="0.01" className={inputClass} value={ipca} onChange={e => setIpca(e.target.value)} />
+        </div>
+        <button type="submit" className="flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-xl transition-all active:scale-95">
+          <Plus className="w-4 h-4" /> Adicionar
+        </button>
+      </form>
+
+      <div className="max-h-[360px] overflow-y-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50/50 sticky top-0">
+            <tr>
+              <th className="px-6 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest">Vigência</th>
+              <th className="px-6 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest">CDI (a.a.)</th>
+              <th className="px-6 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest">IPCA (a.a.)</th>
+              <th className="px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {sortedHistory.length === 0 ? (
+              <tr><td colSpan={4} className="px-6 py-8 text-center text-slate-400 italic text-sm">Nenhuma taxa histórica cadastrada.</td></tr>
+            ) : (
+              sortedHistory.map(entry => (
+                <tr key={entry.id} className="hover:bg-slate-50/50 transition-colors">
+                  <td className="px-6 py-3 text-sm font-bold text-slate-700">{formatDate(entry.effectiveDate)}</td>
+                  <td className="px-6 py-3 text-sm text-slate-600">{entry.cdi.toFixed(2)}%</td>
+                  <td className="px-6 py-3 text-sm text-slate-600">{entry.ipca.toFixed(2)}%</td>
+                  <td className="px-6 py-3 text-right">
+                    <button onClick={() => onDelete(entry.id)} className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all" title="Excluir">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { Investment, InvestmentRedemption, InvestmentStatus, MarketRates } from '../types';
+import { calculateEarlyRedemption, formatCurrency, formatDate } from '../utils/calculations';
+import { getRedemptionStatus, INVESTMENT_STATUS_LABELS } from '../utils/lifecycle';
+import { Calculator, CheckCircle2, X } from 'lucide-react';
+
+type ClosedStatus = Exclude<InvestmentStatus, 'active'>;
+
+interface Props {
+  investment: Investment;
+  marketRates: MarketRates;
+  onClose: () => void;
+  onRecord: (status: ClosedStatus, redemption?: InvestmentRedemption) => void;
+}
+
+// Simula o resgate na data escolhida e registra o valor efetivamente recebido
+export const RedemptionModal: React.FC<Props> = ({ investment, marketRates, onClose, onRecord }) => {
+  const dueDate = investment.dueDate.split('T')[0];
+  const today = new Date().toISOString().split('T')[0];
+  const [redemptionDate, setRedemptionDate] = useState(today < dueDate ? today : dueDate);
+  const [isFgcClaim, setIsFgcClaim] = useState(investment.status === 'fgc_claim');
+  const [netAmount, setNetAmount] = useState('');
+
+  const result = useMemo(
+    () => calculateEarlyRedemption(investment, marketRates, redemptionDate),
+    [investment, marketRates, redemptionDate]
+  );
+
+  const status: ClosedStatus = isFgcClaim ? 'fgc_claim' : getRedemptionStatus(investment, redemptionDate);
+  // Vazio = valor simulado; em garantia do FGC, vazio = pagamento ainda não recebido
+  const receivedAmount = netAmount === '' ? (isFgcClaim ? null : result.net) : Number(netAmount);
+
+  const handleRecord = () => {
+    if (receivedAmount === null) {
+      onRecord(status);
+    } else if (receivedAmount >= 0) {
+      onRecord(status, { date: redemptionDate, netAmount: receivedAmount });
+    }
+  };
+
+  const rows = [
+    { label: 'Valor Bruto', value: result.gross, detail: `${result.holdingDays} dias corridos`, className: 'text-slate-800' },
+    { label: 'IOF', value: -result.iof, detail: `${result.iofRate}% do rendimento`, className: 'text-red-600' },
+    { label: 'Imposto de Renda', value: -result.incomeTax, detail: `${result.incomeTaxRate}% do rendimento`, className: 'text-red-600' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-[70] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl border border-slate-100 w-full max-w-md overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+          <h3 className="text-md font-bold text-slate-800 flex items-center gap-2">
+            <Calculator className="w-5 h-5 text-blue-600" />
+            Resgate
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 transition-colors"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <div>
+            <p className="text-sm font-bold text-slate-800">{investment.title} {investment.bank}</p>
+            <p className="text-xs text-slate-400">
+              {formatCurrency(investment.amount)} aplicados em {formatDate(investment.startDate)} · vence em {formatDate(investment.dueDate)}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Data do Resgate</label>
+            <input
+              type="date"
+              className="w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm"
+              value={redemptionDate}
+              min={investment.startDate.split('T')[0]}
+              max={isFgcClaim ? undefined : dueDate}
+              onChange={e => e.target.value && setRedemptionDate(e.target.value)}
+            />
+          </div>
+
+          <div className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <div key={row.label} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-xs font-bold text-slate-500">{row.label}</p>
+                  <p className="text-[10px] text-slate-400">{row.detail}</p>
+                </div>
+                <p className={`text-sm font-black ${row.className}`}>{formatCurrency(row.value)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-4 bg-blue-50 rounded-xl border border-blue-100 flex items-center justify-between">
+            <p className="text-[10px] text-blue-600 font-bold uppercase tracking-widest">Valor Líquido do Resgate</p>
+            <p className="text-xl font-black text-blue-900">{formatCurrency(result.net)}</p>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100 space-y-3">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Registrar Encerramento</p>
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+              <input type="checkbox" checked={isFgcClaim} onChange={e => setIsFgcClaim(e.target.checked)} />
+              Instituição liquidada: valor a receber do FGC
+            </label>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Valor Líquido Recebido</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={isFgcClaim ? 'Ainda não recebido' : result.net.toFixed(2)}
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm"
+                value={netAmount}
+                onChange={e => setNetAmount(e.target.value)}
+              />
+              <p className="mt-1 text-[10px] text-slate-400">
+                {isFgcClaim
+                  ? 'Deixe em branco enquanto o FGC não pagar; registre o valor quando ele for creditado.'
+                  : 'Deixe em branco para usar o valor simulado acima.'}
+              </p>
+            </div>
+            <button
+              onClick={handleRecord}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-emerald-600 text-white rounded-xl text-sm font-bold hover:bg-emerald-700 transition-all"
+            >
+              <CheckCircle2 className="w-4 h-4" />
+              Marcar como {INVESTMENT_STATUS_LABELS[status].toLowerCase()}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { Investment, InvestmentTitle, InvestmentType, MarketRates } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { addYears } from '../utils/holidays';
+import { getRemainingPrincipal } from '../utils/liquidity';
+import { DEFAULT_STRATEGIES, describeStrategyRate, ReinvestmentStrategy, simulateRollover } from '../utils/simulation';
+import { Repeat, Plus, Trash2, Trophy } from 'lucide-react';
+
+interface Props {
+  investments: Investment[];
+  marketRates: MarketRates;
+}
+
+export const ReinvestmentSimulator: React.FC<Props> = ({ investments, marketRates }) => {
+  const [horizonDate, setHorizonDate] = useState(() => addYears(new Date().toISOString().split('T')[0], 5));
+  const [strategies, setStrategies] = useState<ReinvestmentStrategy[]>(DEFAULT_STRATEGIES);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateStrategy = (id: string, changes: Partial<ReinvestmentStrategy>) => {
+    setStrategies(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const addStrategy = () => {
+    setStrategies(prev => [...prev, {
+      id: crypto.randomUUID(),
+      name: `Estratégia ${prev.length + 1}`,
+      mode: 'custom',
+      title: InvestmentTitle.CDB,
+      type: InvestmentType.CDI,
+      interestRate: 100,
+      termYears: 1,
+    }]);
+  };
+
+  const results = useMemo(() => {
+    if (!horizonDate) return [];
+    return strategies.map(strategy => simulateRollover(investments, marketRates, strategy, horizonDate));
+  }, [investments, marketRates, strategies, horizonDate]);
+
+  const invested = investments.reduce((acc, inv) => acc + getRemainingPrincipal(inv), 0);
+  const best = results.reduce<number | null>((max, r) => max === null || r.totalNet > max ? r.totalNet : max, null);
+  const baseline = results[0]?.totalNet ?? 0;
+  const maturing = investments.filter(inv => inv.dueDate.slice(0, 10) < horizonDate).length;
+
+  const inputClass = "w-full p-2 bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Repeat className="w-5 h-5 text-blue-600" />
+              Reinvestimento no Vencimento
+            </h3>
+            <p className="text-sm text-slate-500 mt-1">
+              O valor líquido de cada título que vence antes da data-alvo é reaplicado conforme a estratégia, quantas vezes couber no período.
+              {' '}{maturing} de {investments.length} {investments.length === 1 ? 'posição vence' : 'posições vencem'} antes de {formatDate(horizonDate)}.
+            </p>
+          </div>
+          <div className="w-48">
+            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Data-alvo</label>
+            <input type="date" className={inputClass} value={horizonDate} onChange={e => setHorizonDate(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <table className="w-full text-left">
+            <thead>
+              <tr>
+                <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Nome</th>
+                <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Reaplicação</th>
+                <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Título</th>
+                <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Rentabilidade</th>
+                <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Taxa (%)</th>
+                <th className="pb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">Prazo (anos)</th>
+                <th className="pb-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {strategies.map(strategy => (
+                <tr key={strategy.id}>
+                  <td className="pr-2 py-1"><input type="text" className={inputClass} value={strategy.name} onChange={e => updateStrategy(strategy.id, { name: e.target.value })} /></td>
+                  <td className="pr-2 py-1">
+                    <select className={inputClass} value={strategy.mode} onChange={e => updateStrategy(strategy.id, { mode: e.target.value as ReinvestmentStrategy['mode'] })}>
+                      <option value="same">Mesmo título e taxa</option>
+                      <option value="custom">Outro título</option>
+                      <option value="cash">Não reinvestir</option>
+                    </select>
+                  </td>
+                  <td className="pr-2 py-1">
+                    <select className={inputClass} value={strategy.title} disabled={strategy.mode !== 'custom'} onChange={e => updateStrategy(strategy.id, { title: e.target.value })}>
+                      {Object.values(InvestmentTitle).map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </td>
+                  <td className="pr-2 py-1">
+                    <select className={inputClass} value={strategy.type} disabled={strategy.mode !== 'custom'} onChange={e => updateStrategy(strategy.id, { type: e.target.value as InvestmentType })}>
+                      {Object.values(InvestmentType).map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </td>
+                  <td className="pr-2 py-1"><input type="number" step="0.01" className={inputClass} value={strategy.interestRate} disabled={strategy.mode !== 'custom'} onChange={e => updateStrategy(strategy.id, { interestRate: parseFloat(e.target.value) || 0 })} /></td>
+                  <td className="pr-2 py-1"><input type="number" step="0.5" min="0.5" className={inputClass} value={strategy.termYears} disabled={strategy.mode === 'cash'} onChange={e => updateStrategy(strategy.id, { termYears: parseFloat(e.target.value) || 0 })} /></td>
+                  <td className="py-1 text-right">
+                    <button onClick={() => setStrategies(strategies.filter(s => s.id !== strategy.id))} className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all" title="Remover">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[11px] text-slate-400">
+            "Mesmo título" repete o título e o indexador do ativo vencido com a taxa informada. Reaplicações em LTN/NTN-B são projetadas pela taxa, sem PU de mercado.
+          </p>
+
+          <button onClick={addStrategy} className="flex items-center gap-2 text-xs font-bold text-blue-600 hover:text-blue-700">
+            <Plus className="w-4 h-4" /> Adicionar estratégia
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-5 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800">Comparativo em {formatDate(horizonDate)}</h3>
+          <p className="text-sm text-slate-500 mt-1">Valores líquidos de IR na data-alvo. Total aplicado: {formatCurrency(invested)}.</p>
+        </div>
+        {results.length === 0 ? (
+          <p className="py-12 text-center text-slate-400 italic text-sm">Adicione ao menos uma estratégia.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-100">
+                  <th className="px-6 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest">Estratégia</th>
+                  <th className="px-6 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Reaplicações</th>
+                  <th className="px-6 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Líquido na Data-alvo</th>
+                  <th className="px-6 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Ganho s/ Aplicado</th>
+                  <th className="px-6 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">vs. {results[0].strategy.name}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {results.map(result => (
+                  <React.Fragment key={result.strategy.id}>
+                    <tr className="hover:bg-slate-50/50 cursor-pointer" onClick={() => setExpandedId(expandedId === result.strategy.id ? null : result.strategy.id)}>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-2 font-bold text-slate-800">
+                          {result.totalNet === best && results.length > 1 && <Trophy className="w-4 h-4 text-amber-500" />}
+                          {result.strategy.name}
+                        </div>
+                        <p className="text-[11px] text-slate-400">{describeStrategyRate(result.strategy)}</p>
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-slate-600">{result.rollovers}</td>
+                      <td className="px-6 py-4 text-right font-black text-slate-800">{formatCurrency(result.totalNet)}</td>
+                      <td className="px-6 py-4 text-right text-sm font-bold text-emerald-600">{formatCurrency(result.totalNet - invested)}</td>
+                      <td className={`px-6 py-4 text-right text-sm font-bold ${result.totalNet - baseline < 0 ? 'text-red-600' : 'text-slate-600'}`}>{formatCurrency(result.totalNet - baseline)}</td>
+                    </tr>
+                    {expandedId === result.strategy.id && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-3 bg-slate-50/50">
+                          <div className="space-y-1">
+                            {result.positions.map(position => (
+                              <div key={position.investmentId} className="flex items-center justify-between text-sm">
+                                <span className="text-slate-600">
+                                  <span className="font-bold text-slate-800">{position.label}</span>
+                                  {position.rollovers > 0 && <span className="text-[11px] text-slate-400"> · {position.rollovers} {position.rollovers === 1 ? 'reaplicação' : 'reaplicações'}</span>}
+                                </span>
+                                <span className="font-bold text-slate-700">{formatCurrency(position.valueAtHorizon)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { Investment, InvestmentType, MarketRates } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { evaluateScenario, getDefaultScenarios, RateScenario } from '../utils/simulation';
+import { Gauge, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  investments: Investment[];
+  marketRates: MarketRates;
+}
+
+export const ScenarioComparison: React.FC<Props> = ({ investments, marketRates }) => {
+  const [scenarios, setScenarios] = useState<RateScenario[]>(() => getDefaultScenarios(marketRates));
+
+  const updateScenario = (id: string, changes: Partial<RateScenario>) => {
+    setScenarios(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const addScenario = () => {
+    setScenarios(prev => [...prev, {
+      id: crypto.randomUUID(),
+      name: `Cenário ${prev.length + 1}`,
+      cdi: marketRates.cdi,
+      ipca: marketRates.ipca,
+      useCurve: false,
+    }]);
+  };
+
+  const results = useMemo(() => {
+    return scenarios.map(scenario => evaluateScenario(investments, marketRates, scenario));
+  }, [investments, marketRates, scenarios]);
+
+  const indexers = Object.values(InvestmentType).filter(type => investments.some(inv => inv.type === type));
+  const base = results[0]?.totalNet ?? 0;
+
+  const inputClass = "w-full p-2 bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-blue-600" />
+          Cenários de Taxas
+        </h3>
+        <p className="text-sm text-slate-500 mt-1">
+          Cada cenário substitui a projeção de CDI e IPCA só nesta comparação; as taxas salvas e os valores da carteira não mudam.
+          O primeiro cenário é a referência e mantém a curva projetada.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-100">
+              <th className="px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest">Cenário</th>
+              <th className="px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest">CDI (% a.a.)</th>
+              <th className="px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest">IPCA (% a.a.)</th>
+              <th className="px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Líquido no Vencimento</th>
+              <th className="px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">vs. Referência</th>
+              <th className="px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">Retorno Real</th>
+              {indexers.map(type => (
+                <th key={type} className="px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-widest text-right">{type}</th>
+              ))}
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {results.map((result, index) => {
+              const { scenario } = result;
+              const difference = result.totalNet - base;
+              return (
+                <tr key={scenario.id} className="hover:bg-slate-50/50">
+                  <td className="px-4 py-2 min-w-[160px]">
+                    <input type="text" className={inputClass} value={scenario.name} onChange={e => updateScenario(scenario.id, { name: e.target.value })} />
+                    {scenario.useCurve && <p className="text-[10px] text-slate-400 mt-1">Com a curva salva</p>}
+                  </td>
+                  <td className="px-4 py-2 w-28"><input type="number" step="0.01" className={inputClass} value={scenario.cdi} onChange={e => updateScenario(scenario.id, { cdi: parseFloat(e.target.value) || 0 })} /></td>
+                  <td className="px-4 py-2 w-28"><input type="number" step="0.01" className={inputClass} value={scenario.ipca} onChange={e => updateScenario(scenario.id, { ipca: parseFloat(e.target.value) || 0 })} /></td>
+                  <td className="px-4 py-2 text-right font-black text-slate-800">{formatCurrency(result.totalNet)}</td>
+                  <td className={`px-4 py-2 text-right text-sm font-bold ${index === 0 ? 'text-slate-300' : difference < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {index === 0 ? '—' : formatCurrency(difference)}
+                  </td>
+                  <td className={`px-4 py-2 text-right text-sm font-bold ${result.realReturn < 0 ? 'text-red-600' : 'text-slate-700'}`}>{result.realReturn.toFixed(2)}%</td>
+                  {indexers.map(type => (
+                    <td key={type} className="px-4 py-2 text-right text-sm text-slate-600">{formatCurrency(result.byIndexer[type] || 0)}</td>
+                  ))}
+                  <td className="px-4 py-2 text-right">
+                    {index > 0 && (
+                      <button onClick={() => setScenarios(scenarios.filter(s => s.id !== scenario.id))} className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all" title="Remover">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-6 pt-4">
+        <button onClick={addScenario} className="flex items-center gap-2 text-xs font-bold text-blue-600 hover:text-blue-700">
+          <Plus className="w-4 h-4" /> Adicionar cenário
+        </button>
+        <p className="text-[11px] text-slate-400 mt-2">
+          Retorno real: valor líquido de cada título deflacionado pelo IPCA do cenário entre a aplicação e o vencimento, sobre o total aplicado.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, RefreshCw, X } from 'lucide-react';
+import { Investment } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { getSyncStatus, PendingChange, resolveConflict, subscribeSyncStatus, syncNow, SyncStatus } from '../services/syncQueue';
+
+interface Props {
+  onConflictResolved: () => void;
+}
+
+const OPERATION_LABELS: Record<PendingChange['operation'], string> = {
+  add: 'Inclusão',
+  update: 'Edição',
+  delete: 'Exclusão',
+  recalculate: 'Recálculo',
+};
+
+const describeVersion = (investment: Investment | null) =>
+  investment
+    ? `${investment.bank} · ${investment.title} · ${formatCurrency(investment.amount)} · vence ${formatDate(investment.dueDate)}`
+    : 'Excluído no servidor';
+
+// Situação da fila offline no cabeçalho, com a resolução de conflitos
+export const SyncStatusIndicator: React.FC<Props> = ({ onConflictResolved }) => {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  const handleResolve = async (changeId: string, keep: 'local' | 'remote') => {
+    setResolvingId(changeId);
+    await resolveConflict(changeId, keep);
+    setResolvingId(null);
+    onConflictResolved();
+  };
+
+  let icon = <CheckCircle2 className="w-4 h-4" />;
+  let label = 'Sincronizado';
+  let color = 'text-emerald-600 bg-emerald-50 border-emerald-200';
+
+  if (status.state === 'syncing') {
+    icon = <Loader2 className="w-4 h-4 animate-spin" />;
+    label = 'Sincronizando';
+    color = 'text-blue-600 bg-blue-50 border-blue-200';
+  } else if (status.state === 'offline') {
+    icon = <CloudOff className="w-4 h-4" />;
+    label = 'Offline';
+    color = 'text-slate-600 bg-slate-100 border-slate-200';
+  } else if (status.state === 'pending') {
+    icon = <RefreshCw className="w-4 h-4" />;
+    label = 'Pendente';
+    color = 'text-amber-700 bg-amber-50 border-amber-200';
+  } else if (status.state === 'conflict') {
+    icon = <AlertTriangle className="w-4 h-4" />;
+    label = 'Conflito';
+    color = 'text-red-600 bg-red-50 border-red-200';
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-3 py-2 border rounded-xl text-xs font-bold transition-all ${color}`}
+        title="Status da sincronização"
+      >
+        {icon}
+        <span className="hidden sm:inline">{label}</span>
+        {status.pending > 0 && (
+          <span className="px-1.5 py-0.5 bg-white/80 rounded-full text-[10px] font-black">{status.pending}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-12 right-0 w-96 bg-white rounded-2xl shadow-2xl border border-slate-100 z-[60] overflow-hidden animate-in fade-in slide-in-from-top-4 duration-200">
+          <div className="p-4 border-b border-slate-50 bg-slate-50/50 flex items-center justify-between">
+            <h3 className="font-bold text-slate-800 text-sm">Sincronização</h3>
+            <button onClick={() => setIsOpen(false)} className="p-1 text-slate-400 hover:text-slate-600 transition-colors"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="p-4 space-y-4 max-h-[420px] overflow-y-auto">
+            <p className="text-xs text-slate-600">
+              {status.pending === 0
+                ? 'Todas as alterações foram enviadas ao servidor.'
+                : `${status.pending} ${status.pending === 1 ? 'alteração aguardando' : 'alterações aguardando'} envio. Elas já valem neste navegador e serão enviadas quando a conexão voltar.`}
+            </p>
+            {status.lastSyncedAt && (
+              <p className="text-[11px] text-slate-400">Última sincronização: {new Date(status.lastSyncedAt).toLocaleString('pt-BR')}</p>
+            )}
+            {status.lastError && (
+              <p className="text-[11px] text-red-600 bg-red-50 rounded-lg p-2">Último erro: {status.lastError}</p>
+            )}
+
+            {status.conflicts.map(change => (
+              <div key={change.id} className="border border-red-200 rounded-xl p-3 space-y-2">
+                <p className="text-xs font-bold text-red-700">
+                  {OPERATION_LABELS[change.operation]} em conflito: o investimento foi alterado em outro dispositivo.
+                </p>
+                <div className="text-[11px] text-slate-600 space-y-1">
+                  <p><span className="font-bold">Sua versão:</span> {change.operation === 'delete' ? 'Excluído' : describeVersion(change.investment)}</p>
+                  <p><span className="font-bold">Servidor:</span> {describeVersion(change.conflict?.remote ?? null)}</p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleResolve(change.id, 'local')}
+                    disabled={resolvingId === change.id}
+                    className="flex-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-[11px] font-bold hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Manter a minha
+                  </button>
+                  <button
+                    onClick={() => handleResolve(change.id, 'remote')}
+                    disabled={resolvingId === change.id}
+                    className="flex-1 px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg text-[11px] font-bold hover:bg-slate-200 disabled:opacity-50"
+                  >
+                    Usar a do servidor
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {status.pending > status.conflicts.length && (
+              <button
+                onClick={() => syncNow()}
+                disabled={status.state === 'syncing'}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 text-white rounded-xl text-xs font-bold hover:bg-slate-900 disabled:opacity-50"
+              >
+                <RefreshCw className="w-3.5 h-3.5" /> Sincronizar agora
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle2, Info, X } from 'lucide-react';
+import { AppNotification, dismissNotification, subscribeNotifications } from '../services/notifications';
+
+const STYLES: Record<AppNotification['kind'], { container: string; icon: React.ReactNode }> = {
+  success: { container: 'bg-emerald-50 border-emerald-200 text-emerald-800', icon: <CheckCircle2 className="w-5 h-5 text-emerald-600 shrink-0" /> },
+  error: { container: 'bg-red-50 border-red-200 text-red-800', icon: <AlertCircle className="w-5 h-5 text-red-600 shrink-0" /> },
+  info: { container: 'bg-blue-50 border-blue-200 text-blue-800', icon: <Info className="w-5 h-5 text-blue-600 shrink-0" /> },
+};
+
+// Avisos das operações (falhas dos serviços, confirmações), empilhados no canto da tela
+export const ToastContainer: React.FC = () => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  useEffect(() => subscribeNotifications(setNotifications), []);
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-24 lg:bottom-6 right-4 left-4 sm:left-auto sm:w-96 z-[70] flex flex-col gap-2">
+      {notifications.map(notification => {
+        const style = STYLES[notification.kind];
+        return (
+          <div
+            key={notification.id}
+            role={notification.kind === 'error' ? 'alert' : 'status'}
+            className={`flex items-start gap-3 p-4 border rounded-2xl shadow-lg animate-in fade-in slide-in-from-bottom-4 duration-200 ${style.container}`}
+          >
+            {style.icon}
+            <div className="flex-1 space-y-2">
+              <p className="text-sm font-medium">{notification.message}</p>
+              {notification.action && (
+                <button
+                  onClick={() => {
+                    dismissNotification(notification.id);
+                    notification.action?.run();
+                  }}
+                  className="text-xs font-bold underline underline-offset-2 hover:no-underline"
+                >
+                  {notification.action.label}
+                </button>
+              )}
+            </div>
+            <button onClick={() => dismissNotification(notification.id)} className="p-1 opacity-60 hover:opacity-100 transition-opacity" title="Fechar">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { RotateCcw, Trash, Trash2 } from 'lucide-react';
+import { Investment } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+
+interface Props {
+  investments: Investment[]; // Só os que estão na lixeira
+  onRestore: (investment: Investment) => void;
+  onPurge: (investments: Investment[]) => void;
+}
+
+// Investimentos excluídos: ficam fora dos cálculos até serem restaurados ou apagados de vez
+export const TrashPanel: React.FC<Props> = ({ investments, onRestore, onPurge }) => {
+  const sorted = useMemo(
+    () => [...investments].sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || '')),
+    [investments]
+  );
+
+  const handlePurge = (items: Investment[]) => {
+    const message = items.length === 1
+      ? 'Excluir definitivamente este investimento? Esta ação não pode ser desfeita.'
+      : `Excluir definitivamente os ${items.length} investimentos da lixeira? Esta ação não pode ser desfeita.`;
+    if (confirm(message)) onPurge(items);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Trash className="w-5 h-5 text-blue-600" />
+            Lixeira
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">Investimentos excluídos não entram no dashboard, no monitor do FGC nem na exportação.</p>
+        </div>
+        {sorted.length > 0 && (
+          <button
+            onClick={() => handlePurge(sorted)}
+            className="px-3 py-2 text-xs font-bold text-red-600 hover:bg-red-50 rounded-xl transition-all shrink-0"
+          >
+            Esvaziar lixeira
+          </button>
+        )}
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="p-8 text-center text-sm text-slate-400">A lixeira está vazia.</p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {sorted.map(inv => (
+            <div key={inv.id} className="px-6 py-4 flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-bold text-slate-800">{inv.title} {inv.bank}</p>
+                <p className="text-[10px] text-slate-400 font-bold">
+                  {formatCurrency(inv.amount)} · vence em {formatDate(inv.dueDate)}
+                  {inv.deletedAt && ` · excluído em ${new Date(inv.deletedAt).toLocaleString('pt-BR')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => onRestore(inv)} className="p-2 text-slate-300 hover:text-blue-600 rounded-lg transition-all" title="Restaurar">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button onClick={() => handlePurge([inv])} className="p-2 text-slate-300 hover:text-red-500 rounded-lg transition-all" title="Excluir definitivamente">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
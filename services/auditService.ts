@@ -0,0 +1,53 @@
+import { AuditFilter, PERSISTENCE_BACKEND, repositories } from './repository';
+import type { AuditAction, AuditCause, AuditEntityType, AuditEntry } from '../types';
+import { getSession } from './authService';
+import { isFailure, ServiceResult } from './result';
+import { diffSnapshots, toAuditSnapshot } from '../utils/audit';
+
+export type { AuditFilter };
+
+export interface AuditChange {
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string;
+  action: AuditAction;
+  before: object | null;
+  after: object | null;
+  cause?: AuditCause;
+}
+
+export async function fetchAuditTrail(filter?: AuditFilter): Promise<ServiceResult<AuditEntry[]>> {
+  return repositories.audit.list(filter);
+}
+
+// Grava as alterações no histórico. Edições sem diferença são ignoradas; uma falha aqui não desfaz
+// a alteração já salva, só fica no console
+export async function recordAuditChanges(changes: AuditChange[]): Promise<void> {
+  const session = PERSISTENCE_BACKEND === 'supabase' ? await getSession() : null;
+  const changedAt = new Date().toISOString();
+
+  const entries: Omit<AuditEntry, 'id'>[] = changes
+    .map(change => {
+      const before = toAuditSnapshot(change.before);
+      const after = toAuditSnapshot(change.after);
+      return {
+        entityType: change.entityType,
+        entityId: change.entityId,
+        entityLabel: change.entityLabel,
+        action: change.action,
+        changedAt,
+        changedBy: session?.user.email || undefined,
+        before,
+        after,
+        changes: diffSnapshots(before, after),
+        cause: change.cause,
+      };
+    })
+    .filter(entry => entry.action !== 'update' || entry.changes.length > 0);
+
+  if (entries.length === 0) return;
+  const result = await repositories.audit.add(entries);
+  if (isFailure(result)) {
+    console.error('Alteração salva, mas não registrada no histórico:', result.error.message);
+  }
+}
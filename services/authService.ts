@@ -0,0 +1,81 @@
+import type { Session } from '@supabase/supabase-js';
+import { getSupabase } from './supabase';
+
+// ============ SESSION ============
+
+export async function getSession(): Promise<Session | null> {
+  const { data, error } = await getSupabase().auth.getSession();
+
+  if (error) {
+    console.error('Erro ao recuperar sessão:', error);
+    return null;
+  }
+
+  return data.session;
+}
+
+// Dono das linhas: todas as consultas dos serviços filtram por este id
+export async function getCurrentUserId(): Promise<string | null> {
+  const session = await getSession();
+  if (!session) {
+    console.error('Nenhum usuário autenticado');
+    return null;
+  }
+  return session.user.id;
+}
+
+export function onSessionChange(callback: (session: Session | null) => void): () => void {
+  const { data } = getSupabase().auth.onAuthStateChange((_event, session) => callback(session));
+  return () => data.subscription.unsubscribe();
+}
+
+// ============ SIGN IN / OUT ============
+
+// Retornam a mensagem de erro (em português) ou null em caso de sucesso
+
+export async function signInWithPassword(email: string, password: string): Promise<string | null> {
+  const { error } = await getSupabase().auth.signInWithPassword({ email: email.trim(), password });
+
+  if (error) {
+    console.error('Erro ao entrar:', error);
+    return 'E-mail ou senha inválidos.';
+  }
+
+  return null;
+}
+
+export async function signUpWithPassword(email: string, password: string): Promise<string | null> {
+  const { error } = await getSupabase().auth.signUp({ email: email.trim(), password });
+
+  if (error) {
+    console.error('Erro ao criar conta:', error);
+    return error.message;
+  }
+
+  return null;
+}
+
+export async function sendMagicLink(email: string): Promise<string | null> {
+  const { error } = await getSupabase().auth.signInWithOtp({
+    email: email.trim(),
+    options: { emailRedirectTo: window.location.origin },
+  });
+
+  if (error) {
+    console.error('Erro ao enviar link de acesso:', error);
+    return 'Não foi possível enviar o link. Tente novamente em instantes.';
+  }
+
+  return null;
+}
+
+export async function signOut(): Promise<boolean> {
+  const { error } = await getSupabase().auth.signOut();
+
+  if (error) {
+    console.error('Erro ao sair:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -1,33 +1,17 @@
-import { supabase } from './supabase';
+import { repositories } from './repository';
+import type { CustomBank } from '../types';
+import { isFailure, ServiceResult } from './result';
+import { recordAuditChanges } from './auditService';
 
-export interface CustomBank {
-    id: string;
-    name: string;
-    isBroker: boolean;
-    isConglomerate: boolean;
-    isTitle: boolean;
-    createdAt: string;
-}
-
-export async function fetchCustomBanks(): Promise<CustomBank[]> {
-    const { data, error } = await supabase
-        .from('custom_banks')
-        .select('*')
-        .order('name', { ascending: true });
+export type { CustomBank };
 
-    if (error) {
-        console.error('Erro ao buscar itens customizados:', error);
-        return [];
-    }
+// Última versão conhecida de cada instituição, para o histórico de alterações
+const knownBanks = new Map<string, CustomBank>();
 
-    return data?.map(row => ({
-        id: row.id,
-        name: row.name,
-        isBroker: row.is_broker || false,
-        isConglomerate: row.is_conglomerate || false,
-        isTitle: row.is_title || false,
-        createdAt: row.created_at,
-    })) || [];
+export async function fetchCustomBanks(): Promise<ServiceResult<CustomBank[]>> {
+    const result = await repositories.institutions.list();
+    if (!isFailure(result)) result.data.forEach(bank => knownBanks.set(bank.id, bank));
+    return result;
 }
 
 export async function addCustomBank(
@@ -35,43 +19,35 @@ export async function addCustomBank(
     isBroker: boolean = false,
     isConglomerate: boolean = false,
     isTitle: boolean = false
-): Promise<CustomBank | null> {
-    const { data, error } = await supabase
-        .from('custom_banks')
-        .insert({
-            name: name.trim(),
-            is_broker: isBroker,
-            is_conglomerate: isConglomerate,
-            is_title: isTitle
-        })
-        .select()
-        .single();
-
-    if (error) {
-        console.error('Erro ao adicionar item customizado:', error);
-        return null;
-    }
-
-    return data ? {
-        id: data.id,
-        name: data.name,
-        isBroker: data.is_broker,
-        isConglomerate: data.is_conglomerate,
-        isTitle: data.is_title,
-        createdAt: data.created_at,
-    } : null;
+): Promise<ServiceResult<CustomBank>> {
+    const result = await repositories.institutions.add({ name, isBroker, isConglomerate, isTitle });
+    if (isFailure(result)) return result;
+    knownBanks.set(result.data.id, result.data);
+    await recordAuditChanges([{
+        entityType: 'institution',
+        entityId: result.data.id,
+        entityLabel: result.data.name,
+        action: 'create',
+        before: null,
+        after: result.data,
+    }]);
+    return result;
 }
 
-export async function deleteCustomBank(id: string): Promise<boolean> {
-    const { error } = await supabase
-        .from('custom_banks')
-        .delete()
-        .eq('id', id);
-
-    if (error) {
-        console.error('Erro ao deletar banco customizado:', error);
-        return false;
+export async function deleteCustomBank(id: string): Promise<ServiceResult<void>> {
+    const result = await repositories.institutions.remove(id);
+    if (isFailure(result)) return result;
+    const before = knownBanks.get(id);
+    knownBanks.delete(id);
+    if (before) {
+        await recordAuditChanges([{
+            entityType: 'institution',
+            entityId: id,
+            entityLabel: before.name,
+            action: 'delete',
+            before,
+            after: null,
+        }]);
     }
-
-    return true;
+    return result;
 }
@@ -0,0 +1,17 @@
+import { repositories } from './repository';
+import type { FgcGuaranteeEvent } from '../types';
+import type { ServiceResult } from './result';
+
+// ============ FGC GUARANTEE EVENTS ============
+
+export async function fetchGuaranteeEvents(): Promise<ServiceResult<FgcGuaranteeEvent[]>> {
+  return repositories.fgcEvents.list();
+}
+
+export async function addGuaranteeEvent(event: Omit<FgcGuaranteeEvent, 'id' | 'createdAt'>): Promise<ServiceResult<FgcGuaranteeEvent>> {
+  return repositories.fgcEvents.add(event);
+}
+
+export async function deleteGuaranteeEvent(id: string): Promise<ServiceResult<void>> {
+  return repositories.fgcEvents.remove(id);
+}
@@ -0,0 +1,17 @@
+import { repositories } from './repository';
+import type { Holder } from '../types';
+import type { ServiceResult } from './result';
+
+// ============ HOLDERS ============
+
+export async function fetchHolders(): Promise<ServiceResult<Holder[]>> {
+  return repositories.holders.list();
+}
+
+export async function addHolder(holder: Omit<Holder, 'id' | 'createdAt'>): Promise<ServiceResult<Holder>> {
+  return repositories.holders.add(holder);
+}
+
+export async function deleteHolder(id: string): Promise<ServiceResult<void>> {
+  return repositories.holders.remove(id);
+}
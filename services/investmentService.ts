@@ -1,169 +1,214 @@
-import { supabase } from './supabase';
-import type { Investment, MarketRates } from '../types';
-
-// Converter de camelCase para snake_case (para o banco)
-function toSnakeCase(investment: Investment) {
-  return {
-    id: investment.id,
-    broker: investment.broker,
-    conglomerate: investment.conglomerate,
-    bank: investment.bank,
-    title: investment.title,
-    type: investment.type,
-    amount: investment.amount,
-    quantity: investment.quantity,
-    interest_rate: investment.interestRate,
-    income_tax: investment.incomeTax,
-    start_date: investment.startDate,
-    due_date: investment.dueDate,
-    future_value: investment.futureValue,
-    net_future_value: investment.netFutureValue,
-    created_at: new Date(investment.createdAt).toISOString(),
-  };
-}
-
-// Converter de snake_case para camelCase (para o app)
-function toCamelCase(row: any): Investment {
-  return {
-    id: row.id,
-    broker: row.broker,
-    conglomerate: row.conglomerate,
-    bank: row.bank,
-    title: row.title,
-    type: row.type,
-    amount: Number(row.amount),
-    quantity: row.quantity,
-    interestRate: Number(row.interest_rate),
-    incomeTax: Number(row.income_tax),
-    startDate: row.start_date,
-    dueDate: row.due_date,
-    futureValue: Number(row.future_value),
-    netFutureValue: Number(row.net_future_value),
-    createdAt: new Date(row.created_at).getTime(),
-  } as Investment;
-}
+import { repositories } from './repository';
+import type { Investment, MarketRates, RateCurveVertex, RateHistoryEntry } from '../types';
+import { isFailure, ok, ServiceResult } from './result';
+import { DEFAULT_MARKET_RATES } from '../utils/rates';
+import { formatDate } from '../utils/calculations';
+import { AuditChange, recordAuditChanges } from './auditService';
 
 // ============ INVESTMENTS ============
 
-export async function fetchInvestments(): Promise<Investment[]> {
-  const { data, error } = await supabase
-    .from('investments')
-    .select('*')
-    .order('due_date', { ascending: true });
-
-  if (error) {
-    console.error('Erro ao buscar investimentos:', error);
-    return [];
-  }
+// Última versão conhecida de cada investimento: é o "antes" do histórico de alterações
+const knownInvestments = new Map<string, Investment>();
 
-  return data?.map(toCamelCase) || [];
-}
+const describeInvestment = (investment: Investment) => `${investment.title} ${investment.bank}`;
 
-export async function addInvestment(investment: Investment): Promise<Investment | null> {
-  const { data, error } = await supabase
-    .from('investments')
-    .insert(toSnakeCase(investment))
-    .select()
-    .single();
+const investmentChange = (action: AuditChange['action'], before: Investment | null, after: Investment | null): AuditChange => {
+  const current = (after || before) as Investment;
+  return { entityType: 'investment', entityId: current.id, entityLabel: describeInvestment(current), action, before, after };
+};
 
-  if (error) {
-    console.error('Erro ao adicionar investimento:', error);
-    return null;
+export async function fetchInvestments(): Promise<ServiceResult<Investment[]>> {
+  const result = await repositories.investments.list();
+  if (!isFailure(result)) {
+    knownInvestments.clear();
+    result.data.forEach(inv => knownInvestments.set(inv.id, inv));
   }
+  return result;
+}
 
-  return data ? toCamelCase(data) : null;
+export async function addInvestment(investment: Investment): Promise<ServiceResult<Investment>> {
+  const result = await repositories.investments.add(investment);
+  if (isFailure(result)) return result;
+  knownInvestments.set(result.data.id, result.data);
+  await recordAuditChanges([investmentChange('create', null, result.data)]);
+  return result;
 }
 
-export async function deleteInvestment(id: string): Promise<boolean> {
-  const { error } = await supabase
-    .from('investments')
-    .delete()
-    .eq('id', id);
+// Move para a lixeira: a linha continua salva, com a data da exclusão
+export async function trashInvestment(investment: Investment): Promise<ServiceResult<Investment>> {
+  return saveInvestment({ ...investment, deletedAt: new Date().toISOString() }, 'delete');
+}
 
-  if (error) {
-    console.error('Erro ao deletar investimento:', error);
-    return false;
-  }
+export async function restoreFromTrash(investment: Investment): Promise<ServiceResult<Investment>> {
+  return saveInvestment({ ...investment, deletedAt: undefined }, 'restore');
+}
 
-  return true;
+// Exclusão definitiva (esvaziar a lixeira)
+export async function deleteInvestment(id: string): Promise<ServiceResult<void>> {
+  const result = await repositories.investments.remove(id);
+  if (isFailure(result)) return result;
+  const before = knownInvestments.get(id);
+  knownInvestments.delete(id);
+  if (before) await recordAuditChanges([investmentChange('delete', before, null)]);
+  return result;
 }
 
-export async function updateInvestment(investment: Investment): Promise<Investment | null> {
-  const { data, error } = await supabase
-    .from('investments')
-    .update(toSnakeCase(investment))
-    .eq('id', investment.id)
-    .select()
-    .single();
+const saveInvestment = async (investment: Investment, action: AuditChange['action']): Promise<ServiceResult<Investment>> => {
+  const result = await repositories.investments.update(investment);
+  if (isFailure(result)) return result;
+  const before = knownInvestments.get(investment.id) || null;
+  knownInvestments.set(result.data.id, result.data);
+  await recordAuditChanges([investmentChange(action, before, result.data)]);
+  return result;
+};
+
+export async function updateInvestment(investment: Investment): Promise<ServiceResult<Investment>> {
+  return saveInvestment(investment, 'update');
+}
 
-  if (error) {
-    console.error('Erro ao atualizar investimento:', error);
-    return null;
-  }
+// Grava uma versão anterior (do histórico) como a atual
+export async function restoreInvestmentVersion(investment: Investment): Promise<ServiceResult<Investment>> {
+  return saveInvestment(investment, 'restore');
+}
 
-  return data ? toCamelCase(data) : null;
+export async function updateInvestmentValues(investments: Investment[]): Promise<ServiceResult<void>> {
+  const result = await repositories.investments.saveMany(investments);
+  if (isFailure(result)) return result;
+  // Marcadas como recálculo: o histórico as agrupa em vez de listar cada uma como edição
+  const changes = investments.map((inv): AuditChange => ({
+    ...investmentChange('update', knownInvestments.get(inv.id) || null, inv),
+    cause: 'recalculation',
+  }));
+  investments.forEach(inv => knownInvestments.set(inv.id, inv));
+  await recordAuditChanges(changes);
+  return result;
 }
 
 // ============ MARKET RATES ============
 
-export async function fetchMarketRates(): Promise<MarketRates> {
-  const { data, error } = await supabase
-    .from('market_rates')
-    .select('*')
-    .limit(1)
-    .single();
+export interface CurrentRates {
+  rates: MarketRates;
+  usingDefaults: boolean; // Nenhuma taxa cadastrada: valem DEFAULT_MARKET_RATES
+}
 
-  if (error || !data) {
-    // Retorna valores padrão se não encontrar
-    return { cdi: 11.25, ipca: 4.5 };
-  }
+// Projeção gravada para CDI e IPCA; o que já ocorreu fica só na série histórica
+let knownProjection: MarketRates | null = null;
+
+const projectionSnapshot = (rates: MarketRates) => ({ cdi: rates.cdi, ipca: rates.ipca });
 
-  return { cdi: Number(data.cdi), ipca: Number(data.ipca) };
-}
-
-export async function saveMarketRates(rates: MarketRates): Promise<boolean> {
-  // Primeiro, tenta encontrar um registro existente
-  const { data: existing } = await supabase
-    .from('market_rates')
-    .select('id')
-    .limit(1)
-    .single();
-
-  if (existing) {
-    // Atualiza o registro existente
-    const { error } = await supabase
-      .from('market_rates')
-      .update({ cdi: rates.cdi, ipca: rates.ipca, updated_at: new Date().toISOString() })
-      .eq('id', existing.id);
-
-    if (error) {
-      console.error('Erro ao atualizar taxas:', error);
-      return false;
-    }
-  } else {
-    // Cria um novo registro
-    const { error } = await supabase
-      .from('market_rates')
-      .insert({ cdi: rates.cdi, ipca: rates.ipca });
-
-    if (error) {
-      console.error('Erro ao criar taxas:', error);
-      return false;
-    }
+// Taxas vigentes: a projeção usada após a última data realizada
+export async function fetchMarketRates(): Promise<ServiceResult<CurrentRates>> {
+  const result = await repositories.rates.getCurrent();
+  if (isFailure(result)) return result;
+  knownProjection = result.data;
+  return ok(result.data
+    ? { rates: result.data, usingDefaults: false }
+    : { rates: { ...DEFAULT_MARKET_RATES }, usingDefaults: true });
+}
+
+// Taxas por data de vigência, como no histórico de alterações (o id muda ao regravar)
+const knownRates = new Map<string, RateHistoryEntry>();
+
+const rateSnapshot = (entry: Omit<RateHistoryEntry, 'id'>) => ({ effectiveDate: entry.effectiveDate, cdi: entry.cdi, ipca: entry.ipca });
+
+export async function fetchRateHistory(): Promise<ServiceResult<RateHistoryEntry[]>> {
+  const result = await repositories.rates.listHistory();
+  if (!isFailure(result)) {
+    knownRates.clear();
+    result.data.forEach(entry => knownRates.set(entry.effectiveDate, entry));
   }
+  return result;
+}
 
-  return true;
+// Grava a projeção de CDI e IPCA; a série histórica recebe só taxas realizadas (saveRateHistoryEntries)
+export async function saveMarketRates(rates: MarketRates): Promise<ServiceResult<void>> {
+  const result = await repositories.rates.saveCurrent(rates);
+  if (isFailure(result)) return result;
+
+  const before = knownProjection;
+  knownProjection = projectionSnapshot(rates);
+  await recordAuditChanges([{
+    entityType: 'rate',
+    entityId: 'projection',
+    entityLabel: 'Projeção de CDI e IPCA',
+    action: before ? 'update' : 'create',
+    before: before ? projectionSnapshot(before) : null,
+    after: projectionSnapshot(rates),
+  }]);
+  return result;
 }
 
-export async function updateInvestmentValues(investments: Investment[]): Promise<boolean> {
-  const rows = investments.map(toSnakeCase);
-  const { error } = await supabase
-    .from('investments')
-    .upsert(rows);
+// Insere ou atualiza (pela data de vigência) várias entradas da série de uma vez
+export async function saveRateHistoryEntries(entries: Omit<RateHistoryEntry, 'id'>[]): Promise<ServiceResult<RateHistoryEntry[]>> {
+  const result = await repositories.rates.saveHistory(entries);
+  if (isFailure(result)) return result;
+
+  const changes = result.data.map((entry): AuditChange => {
+    const before = knownRates.get(entry.effectiveDate);
+    return {
+      entityType: 'rate',
+      entityId: entry.effectiveDate,
+      entityLabel: `Taxas vigentes em ${formatDate(entry.effectiveDate)}`,
+      action: before ? 'update' : 'create',
+      before: before ? rateSnapshot(before) : null,
+      after: rateSnapshot(entry),
+    };
+  });
+  result.data.forEach(entry => knownRates.set(entry.effectiveDate, entry));
+  await recordAuditChanges(changes);
+  return result;
+}
 
-  if (error) {
-    console.error('Erro ao atualizar investimentos em massa:', error);
-    return false;
+export async function deleteRateHistoryEntry(id: string): Promise<ServiceResult<void>> {
+  const result = await repositories.rates.removeHistory(id);
+  if (isFailure(result)) return result;
+
+  const before = [...knownRates.values()].find(entry => entry.id === id);
+  if (before) {
+    knownRates.delete(before.effectiveDate);
+    await recordAuditChanges([{
+      entityType: 'rate',
+      entityId: before.effectiveDate,
+      entityLabel: `Taxas vigentes em ${formatDate(before.effectiveDate)}`,
+      action: 'delete',
+      before: rateSnapshot(before),
+      after: null,
+    }]);
   }
-  return true;
+  return result;
+}
+
+// ============ RATE CURVE ============
+
+// Curva gravada, para o histórico de alterações
+let knownCurve: RateCurveVertex[] = [];
+
+const curveSnapshot = (curve: RateCurveVertex[]) => ({
+  vertices: [...curve]
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+    .map(v => ({ effectiveDate: v.effectiveDate, cdi: v.cdi, ipca: v.ipca })),
+});
+
+export async function fetchRateCurve(): Promise<ServiceResult<RateCurveVertex[]>> {
+  const result = await repositories.rates.getCurve();
+  if (!isFailure(result)) knownCurve = result.data;
+  return result;
+}
+
+// Substitui a curva inteira pelos vértices informados
+export async function saveRateCurve(curve: RateCurveVertex[]): Promise<ServiceResult<void>> {
+  const result = await repositories.rates.saveCurve(curve);
+  if (isFailure(result)) return result;
+
+  const before = knownCurve;
+  knownCurve = curve;
+  await recordAuditChanges([{
+    entityType: 'rate',
+    entityId: 'curve',
+    entityLabel: 'Curva a termo',
+    action: before.length === 0 ? 'create' : curve.length === 0 ? 'delete' : 'update',
+    before: before.length > 0 ? curveSnapshot(before) : null,
+    after: curve.length > 0 ? curveSnapshot(curve) : null,
+  }]);
+  return result;
 }
@@ -0,0 +1,217 @@
+import type { AuditEntry, CustomBank, FgcGuaranteeEvent, Holder, Investment, MarketRates, RateCurveVertex, RateHistoryEntry } from '../types';
+import type { AuditFilter, Repositories } from './repository';
+import { mergeRateHistory } from '../utils/rates';
+import { fail, ok, ServiceResult } from './result';
+
+// Prefixo das chaves no localStorage do navegador
+const STORAGE_PREFIX = 'lidia-investe:';
+
+export interface LocalStore<T> {
+  read(): T[];
+  write(items: T[]): boolean;
+}
+
+// Lê e grava uma coleção JSON; falhas (cota cheia, modo privado) viram coleção vazia ou `false`
+export const createLocalStore = <T>(name: string): LocalStore<T> => {
+  const key = `${STORAGE_PREFIX}${name}`;
+  return {
+    read(): T[] {
+      try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : [];
+      } catch (error) {
+        console.error(`Erro ao ler ${name} do armazenamento local:`, error);
+        return [];
+      }
+    },
+    write(items: T[]): boolean {
+      try {
+        localStorage.setItem(key, JSON.stringify(items));
+        return true;
+      } catch (error) {
+        console.error(`Erro ao gravar ${name} no armazenamento local:`, error);
+        return false;
+      }
+    },
+  };
+};
+
+// O localStorage tem poucos megabytes: o registro de auditoria guarda só as alterações mais recentes
+const MAX_LOCAL_AUDIT_ENTRIES = 1000;
+
+// Filtro e ordenação comuns aos registros guardados no navegador
+export const filterAuditEntries = (entries: AuditEntry[], filter: AuditFilter = {}): AuditEntry[] => {
+  const matching = entries
+    .filter(e => !filter.entityType || e.entityType === filter.entityType)
+    .filter(e => !filter.entityId || e.entityId === filter.entityId)
+    .sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+  return filter.limit ? matching.slice(0, filter.limit) : matching;
+};
+
+// Gravação concluída ou falha de armazenamento (cota cheia, modo privado)
+const written = <T>(success: boolean, data: T, action: string): ServiceResult<T> => {
+  return success
+    ? ok(data)
+    : fail('storage', `Não foi possível ${action}: o armazenamento do navegador está cheio ou bloqueado.`);
+};
+
+const removeById = <T extends { id: string }>(store: LocalStore<T>, id: string, action: string): ServiceResult<void> => {
+  return written(store.write(store.read().filter(item => item.id !== id)), undefined, action);
+};
+
+// Armazenamento no próprio navegador: o app roda offline, sem login nem backend
+export const createLocalRepositories = (): Repositories => {
+  const investments = createLocalStore<Investment>('investments');
+  const rateHistory = createLocalStore<RateHistoryEntry>('market_rates');
+  const rateProjection = createLocalStore<MarketRates>('market_projection'); // Um único item
+  const rateCurve = createLocalStore<RateCurveVertex>('rate_curve');
+  const institutions = createLocalStore<CustomBank>('custom_banks');
+  const fgcEvents = createLocalStore<FgcGuaranteeEvent>('fgc_events');
+  const holders = createLocalStore<Holder>('holders');
+  const auditLog = createLocalStore<AuditEntry>('audit_log');
+
+  return {
+    // ============ INVESTMENTS ============
+    investments: {
+      async list() {
+        return ok(investments.read().sort((a, b) => a.dueDate.localeCompare(b.dueDate)));
+      },
+
+      async add(investment) {
+        return written(investments.write([...investments.read(), investment]), investment, 'salvar o investimento');
+      },
+
+      async update(investment) {
+        const current = investments.read();
+        if (!current.some(inv => inv.id === investment.id)) {
+          return fail('not_found', 'Investimento não encontrado: ele pode ter sido removido.');
+        }
+        return written(
+          investments.write(current.map(inv => inv.id === investment.id ? investment : inv)),
+          investment,
+          'atualizar o investimento'
+        );
+      },
+
+      async remove(id) {
+        return removeById(investments, id, 'remover o investimento');
+      },
+
+      async saveMany(updated) {
+        const byId = new Map(investments.read().map(inv => [inv.id, inv]));
+        updated.forEach(inv => byId.set(inv.id, inv));
+        return written(investments.write([...byId.values()]), undefined, 'atualizar os investimentos');
+      },
+    },
+
+    // ============ MARKET RATES ============
+    rates: {
+      async getCurrent() {
+        const [projection] = rateProjection.read();
+        return ok(projection ? { cdi: projection.cdi, ipca: projection.ipca } : null);
+      },
+
+      async saveCurrent(rates) {
+        return written(rateProjection.write([{ cdi: rates.cdi, ipca: rates.ipca }]), undefined, 'salvar as taxas de mercado');
+      },
+
+      async listHistory() {
+        return ok(rateHistory.read().sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate)));
+      },
+
+      async saveHistory(entries) {
+        const current = rateHistory.read();
+        // Mantém o id da entrada existente na mesma data de vigência
+        const saved = entries.map(entry => ({
+          ...entry,
+          id: current.find(e => e.effectiveDate === entry.effectiveDate)?.id || crypto.randomUUID(),
+        }));
+        return written(rateHistory.write(mergeRateHistory(current, saved)), saved, 'salvar o histórico de taxas');
+      },
+
+      async removeHistory(id) {
+        return removeById(rateHistory, id, 'remover a taxa histórica');
+      },
+
+      async getCurve() {
+        return ok(rateCurve.read().sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate)));
+      },
+
+      async saveCurve(curve) {
+        return written(rateCurve.write(curve), undefined, 'salvar a curva de juros');
+      },
+    },
+
+    // ============ CUSTOM INSTITUTIONS ============
+    institutions: {
+      async list() {
+        return ok(institutions.read().sort((a, b) => a.name.localeCompare(b.name)));
+      },
+
+      async add(item) {
+        const saved: CustomBank = { ...item, name: item.name.trim(), id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+        return written(institutions.write([...institutions.read(), saved]), saved, 'adicionar a instituição');
+      },
+
+      async remove(id) {
+        return removeById(institutions, id, 'remover a instituição');
+      },
+    },
+
+    // ============ FGC GUARANTEE EVENTS ============
+    fgcEvents: {
+      async list() {
+        return ok(fgcEvents.read().sort((a, b) => b.eventDate.localeCompare(a.eventDate)));
+      },
+
+      async add(event) {
+        const saved: FgcGuaranteeEvent = {
+          ...event,
+          institution: event.institution.trim(),
+          notes: event.notes || undefined,
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+        };
+        return written(fgcEvents.write([...fgcEvents.read(), saved]), saved, 'registrar o evento de garantia do FGC');
+      },
+
+      async remove(id) {
+        return removeById(fgcEvents, id, 'remover o evento de garantia do FGC');
+      },
+    },
+
+    // ============ HOLDERS ============
+    holders: {
+      async list() {
+        return ok(holders.read().sort((a, b) => a.createdAt - b.createdAt));
+      },
+
+      async add(holder) {
+        const saved: Holder = {
+          name: holder.name.trim(),
+          cpf: holder.cpf?.trim() || undefined,
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+        };
+        return written(holders.write([...holders.read(), saved]), saved, 'adicionar o titular');
+      },
+
+      async remove(id) {
+        return removeById(holders, id, 'remover o titular');
+      },
+    },
+
+    // ============ AUDIT LOG ============
+    audit: {
+      async list(filter) {
+        return ok(filterAuditEntries(auditLog.read(), filter));
+      },
+
+      async add(entries) {
+        const saved: AuditEntry[] = entries.map(entry => ({ ...entry, id: crypto.randomUUID() }));
+        const kept = [...auditLog.read(), ...saved].slice(-MAX_LOCAL_AUDIT_ENTRIES);
+        return written(auditLog.write(kept), saved, 'registrar a alteração no histórico');
+      },
+    },
+  };
+};
@@ -0,0 +1,58 @@
+import { isFailure, ServiceFailure, ServiceResult } from './result';
+
+// ============ TYPES ============
+
+export type NotificationKind = 'success' | 'error' | 'info';
+
+export interface NotificationAction {
+  label: string;
+  run: () => void;
+}
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  message: string;
+  action?: NotificationAction;
+}
+
+// ============ STORE ============
+
+// Erros ficam até serem dispensados; os demais somem sozinhos
+const AUTO_DISMISS_MS = 4000;
+
+type NotificationListener = (notifications: AppNotification[]) => void;
+
+const listeners = new Set<NotificationListener>();
+let notifications: AppNotification[] = [];
+
+const publish = (next: AppNotification[]) => {
+  notifications = next;
+  listeners.forEach(listener => listener(notifications));
+};
+
+export const subscribeNotifications = (listener: NotificationListener): (() => void) => {
+  listeners.add(listener);
+  listener(notifications);
+  return () => listeners.delete(listener);
+};
+
+export const dismissNotification = (id: string) => {
+  publish(notifications.filter(n => n.id !== id));
+};
+
+export const notify = (kind: NotificationKind, message: string, action?: NotificationAction): string => {
+  const id = crypto.randomUUID();
+  publish([...notifications, { id, kind, message, action }]);
+  if (kind !== 'error') {
+    setTimeout(() => dismissNotification(id), AUTO_DISMISS_MS);
+  }
+  return id;
+};
+
+// Avisa a falha (com "Tentar novamente" quando houver `retry`); depois do `if`, o resultado é o de sucesso
+export const reportFailure = <T>(result: ServiceResult<T>, retry?: () => void): result is ServiceFailure => {
+  if (!isFailure(result)) return false;
+  notify('error', result.error.message, retry ? { label: 'Tentar novamente', run: retry } : undefined);
+  return true;
+};
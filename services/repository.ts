@@ -0,0 +1,91 @@
+import type {
+  AuditEntityType,
+  AuditEntry,
+  CustomBank,
+  FgcGuaranteeEvent,
+  Holder,
+  Investment,
+  MarketRates,
+  RateCurveVertex,
+  RateHistoryEntry,
+} from '../types';
+import { isSupabaseConfigured } from './supabase';
+import { createSupabaseRepositories } from './supabaseRepository';
+import { createLocalRepositories } from './localRepository';
+import type { ServiceResult } from './result';
+
+// Nenhuma operação lança: falhas voltam como `ServiceResult` com o motivo (veja result.ts)
+
+export interface InvestmentRepository {
+  list(): Promise<ServiceResult<Investment[]>>; // Ordenados por vencimento
+  add(investment: Investment): Promise<ServiceResult<Investment>>;
+  update(investment: Investment): Promise<ServiceResult<Investment>>;
+  remove(id: string): Promise<ServiceResult<void>>;
+  saveMany(investments: Investment[]): Promise<ServiceResult<void>>; // Só IR e valores projetados, recalculados pelas taxas
+}
+
+export interface RateRepository {
+  getCurrent(): Promise<ServiceResult<MarketRates | null>>; // Projeção de CDI/IPCA (fora da série realizada); null se não houver
+  saveCurrent(rates: MarketRates): Promise<ServiceResult<void>>;
+  listHistory(): Promise<ServiceResult<RateHistoryEntry[]>>;
+  saveHistory(entries: Omit<RateHistoryEntry, 'id'>[]): Promise<ServiceResult<RateHistoryEntry[]>>; // Substitui pela data de vigência
+  removeHistory(id: string): Promise<ServiceResult<void>>;
+  getCurve(): Promise<ServiceResult<RateCurveVertex[]>>;
+  saveCurve(curve: RateCurveVertex[]): Promise<ServiceResult<void>>; // Substitui a curva inteira
+}
+
+export interface InstitutionRepository {
+  list(): Promise<ServiceResult<CustomBank[]>>;
+  add(item: Omit<CustomBank, 'id' | 'createdAt'>): Promise<ServiceResult<CustomBank>>;
+  remove(id: string): Promise<ServiceResult<void>>;
+}
+
+export interface FgcEventRepository {
+  list(): Promise<ServiceResult<FgcGuaranteeEvent[]>>; // Mais recentes primeiro
+  add(event: Omit<FgcGuaranteeEvent, 'id' | 'createdAt'>): Promise<ServiceResult<FgcGuaranteeEvent>>;
+  remove(id: string): Promise<ServiceResult<void>>;
+}
+
+export interface HolderRepository {
+  list(): Promise<ServiceResult<Holder[]>>;
+  add(holder: Omit<Holder, 'id' | 'createdAt'>): Promise<ServiceResult<Holder>>;
+  remove(id: string): Promise<ServiceResult<void>>;
+}
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  limit?: number;
+}
+
+export interface AuditRepository {
+  list(filter?: AuditFilter): Promise<ServiceResult<AuditEntry[]>>; // Mais recentes primeiro
+  add(entries: Omit<AuditEntry, 'id'>[]): Promise<ServiceResult<AuditEntry[]>>;
+}
+
+export interface Repositories {
+  investments: InvestmentRepository;
+  rates: RateRepository;
+  institutions: InstitutionRepository;
+  fgcEvents: FgcEventRepository;
+  holders: HolderRepository;
+  audit: AuditRepository;
+}
+
+export type PersistenceBackend = 'supabase' | 'local';
+
+// VITE_PERSISTENCE=local força o modo offline; sem credenciais do Supabase ele é o padrão
+const resolveBackend = (): PersistenceBackend => {
+  const requested = import.meta.env.VITE_PERSISTENCE;
+  if (requested === 'local') return 'local';
+  if (requested === 'supabase' && !isSupabaseConfigured) {
+    console.error('VITE_PERSISTENCE=supabase sem credenciais do Supabase; usando armazenamento local');
+  }
+  return isSupabaseConfigured ? 'supabase' : 'local';
+};
+
+export const PERSISTENCE_BACKEND: PersistenceBackend = resolveBackend();
+
+export const repositories: Repositories = PERSISTENCE_BACKEND === 'supabase'
+  ? createSupabaseRepositories()
+  : createLocalRepositories();
@@ -0,0 +1,51 @@
+// ============ TYPES ============
+
+export type ServiceErrorKind = 'network' | 'auth' | 'not_found' | 'storage' | 'unknown';
+
+export interface ServiceError {
+  kind: ServiceErrorKind;
+  message: string; // Texto para o usuário (em português)
+  cause?: unknown;
+}
+
+export type ServiceFailure = { ok: false; error: ServiceError };
+
+// Resultado de toda operação dos serviços: os dados ou o motivo da falha
+export type ServiceResult<T> = { ok: true; data: T } | ServiceFailure;
+
+// ============ HELPERS ============
+
+export const ok = <T>(data: T): ServiceResult<T> => ({ ok: true, data });
+
+// Sem strictNullChecks, `!result.ok` não estreita o tipo; este guard estreita nos dois ramos
+export const isFailure = <T>(result: ServiceResult<T>): result is ServiceFailure => result.ok === false;
+
+export const fail = (kind: ServiceErrorKind, message: string, cause?: unknown): ServiceFailure => ({
+  ok: false,
+  error: { kind, message, cause },
+});
+
+const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+const isAuthError = (error: unknown): boolean => {
+  const { code, status } = (error ?? {}) as { code?: string; status?: number };
+  // PGRST301: JWT expirado; 42501: bloqueado pelas políticas de RLS
+  return code === 'PGRST301' || code === '42501' || status === 401 || status === 403;
+};
+
+// Converte um erro do Supabase (ou de rede) em falha tipada; `action` completa a frase: "buscar os investimentos"
+export const toFailure = (error: unknown, action: string): ServiceFailure => {
+  console.error(`Erro ao ${action}:`, error);
+
+  if (isNetworkError(error)) {
+    return fail('network', `Sem conexão com o servidor: não foi possível ${action}.`, error);
+  }
+  if (isAuthError(error)) {
+    return fail('auth', `Sua sessão expirou: entre novamente para ${action}.`, error);
+  }
+  return fail('unknown', `Não foi possível ${action}.`, error);
+};
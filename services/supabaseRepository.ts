@@ -0,0 +1,607 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabase } from './supabase';
+import { getCurrentUserId } from './authService';
+import type { AuditEntry, CustomBank, FgcGuaranteeEvent, Holder, Investment, RateHistoryEntry } from '../types';
+import type { AuditRepository, Repositories } from './repository';
+import { createLocalStore, filterAuditEntries } from './localRepository';
+import { createSyncedInvestmentRepository, InvestmentRemote } from './syncQueue';
+import { fail, ok, ServiceResult, toFailure } from './result';
+
+// Converter de camelCase para snake_case (para o banco)
+function toSnakeCase(investment: Investment, userId: string) {
+  return {
+    id: investment.id,
+    user_id: userId,
+    broker: investment.broker,
+    conglomerate: investment.conglomerate,
+    bank: investment.bank,
+    title: investment.title,
+    type: investment.type,
+    amount: investment.amount,
+    quantity: investment.quantity,
+    unit_price: investment.unitPrice ?? null,
+    interest_rate: investment.interestRate,
+    income_tax: investment.incomeTax,
+    manual_income_tax: investment.manualIncomeTax || false,
+    holders: investment.holders && investment.holders.length > 0 ? investment.holders : null,
+    status: investment.status || 'active',
+    redemption_date: investment.redemption?.date ?? null,
+    redemption_net_amount: investment.redemption?.netAmount ?? null,
+    liquidity: investment.liquidity?.type || 'at_maturity',
+    liquidity_available_from: investment.liquidity?.availableFrom ?? null,
+    partial_redemptions: investment.partialRedemptions && investment.partialRedemptions.length > 0 ? investment.partialRedemptions : null,
+    start_date: investment.startDate,
+    due_date: investment.dueDate,
+    future_value: investment.futureValue,
+    net_future_value: investment.netFutureValue,
+    created_at: new Date(investment.createdAt).toISOString(),
+    updated_at: new Date(investment.updatedAt ?? Date.now()).toISOString(),
+    deleted_at: investment.deletedAt ?? null,
+  };
+}
+
+// Converter de snake_case para camelCase (para o app)
+function toCamelCase(row: any): Investment {
+  return {
+    id: row.id,
+    broker: row.broker,
+    conglomerate: row.conglomerate,
+    bank: row.bank,
+    title: row.title,
+    type: row.type,
+    amount: Number(row.amount),
+    quantity: Number(row.quantity),
+    unitPrice: row.unit_price != null ? Number(row.unit_price) : undefined,
+    interestRate: Number(row.interest_rate),
+    incomeTax: Number(row.income_tax),
+    manualIncomeTax: row.manual_income_tax || false,
+    holders: row.holders || undefined,
+    status: row.status || 'active',
+    redemption: row.redemption_date
+      ? { date: row.redemption_date, netAmount: Number(row.redemption_net_amount) }
+      : undefined,
+    liquidity: { type: row.liquidity || 'at_maturity', availableFrom: row.liquidity_available_from || undefined },
+    partialRedemptions: row.partial_redemptions || undefined,
+    startDate: row.start_date,
+    dueDate: row.due_date,
+    futureValue: Number(row.future_value),
+    netFutureValue: Number(row.net_future_value),
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : undefined,
+    deletedAt: row.deleted_at || undefined,
+  } as Investment;
+}
+
+function toRateHistoryEntry(row: any): RateHistoryEntry {
+  return {
+    id: row.id,
+    effectiveDate: row.effective_date,
+    cdi: Number(row.cdi),
+    ipca: Number(row.ipca),
+  };
+}
+
+function toCustomBank(row: any): CustomBank {
+  return {
+    id: row.id,
+    name: row.name,
+    isBroker: row.is_broker || false,
+    isConglomerate: row.is_conglomerate || false,
+    isTitle: row.is_title || false,
+    createdAt: row.created_at,
+  };
+}
+
+function toGuaranteeEvent(row: any): FgcGuaranteeEvent {
+  return {
+    id: row.id,
+    institution: row.institution,
+    eventDate: row.event_date,
+    amountPaid: Number(row.amount_paid),
+    holderId: row.holder_id || undefined,
+    notes: row.notes || undefined,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+function toHolder(row: any): Holder {
+  return {
+    id: row.id,
+    name: row.name,
+    cpf: row.cpf || undefined,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+function toAuditEntry(row: any): AuditEntry {
+  return {
+    id: row.id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    entityLabel: row.entity_label,
+    action: row.action,
+    changedAt: row.changed_at,
+    changedBy: row.changed_by || undefined,
+    before: row.before_data,
+    after: row.after_data,
+    changes: row.changes || [],
+    cause: row.cause || undefined,
+  };
+}
+
+function toAuditRow(entry: AuditEntry, userId: string) {
+  return {
+    id: entry.id,
+    user_id: userId,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId,
+    entity_label: entry.entityLabel,
+    action: entry.action,
+    changed_at: entry.changedAt,
+    changed_by: entry.changedBy ?? null,
+    before_data: entry.before,
+    after_data: entry.after,
+    changes: entry.changes,
+    cause: entry.cause ?? null,
+  };
+}
+
+// Investimentos no servidor para a fila de sincronização: erros são lançados (a alteração fica pendente)
+// e `updated_at` funciona como versão para detectar edições concorrentes
+const createInvestmentRemote = (supabase: SupabaseClient): InvestmentRemote => {
+  const requireUserId = async () => {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Nenhum usuário autenticado');
+    return userId;
+  };
+
+  const fetchOne = async (id: string, userId: string): Promise<Investment | null> => {
+    const { data, error } = await supabase
+      .from('investments')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  };
+
+  return {
+    async list() {
+      const userId = await requireUserId();
+
+      const { data, error } = await supabase
+        .from('investments')
+        .select('*')
+        .eq('user_id', userId)
+        .order('due_date', { ascending: true });
+
+      if (error) throw error;
+      return data?.map(toCamelCase) || [];
+    },
+
+    async insert(investment) {
+      const userId = await requireUserId();
+
+      const { data, error } = await supabase
+        .from('investments')
+        .insert(toSnakeCase({ ...investment, updatedAt: Date.now() }, userId))
+        .select()
+        .single();
+
+      // Chave duplicada: um envio anterior chegou ao servidor, mas a resposta se perdeu
+      if (error?.code === '23505') {
+        return { status: 'saved', investment: await fetchOne(investment.id, userId) };
+      }
+      if (error) throw error;
+      return { status: 'saved', investment: toCamelCase(data) };
+    },
+
+    async update(investment, baseUpdatedAt) {
+      const userId = await requireUserId();
+
+      // Toda linha do servidor tem versão: sem a base não há como saber se ela mudou
+      if (baseUpdatedAt == null) return { status: 'conflict', remote: await fetchOne(investment.id, userId) };
+
+      const { data, error } = await supabase
+        .from('investments')
+        .update(toSnakeCase({ ...investment, updatedAt: Date.now() }, userId))
+        .eq('id', investment.id)
+        .eq('user_id', userId)
+        .eq('updated_at', new Date(baseUpdatedAt).toISOString())
+        .select();
+      if (error) throw error;
+      if (data && data.length > 0) return { status: 'saved', investment: toCamelCase(data[0]) };
+
+      // Nenhuma linha na versão base: alterado ou excluído por outro dispositivo
+      return { status: 'conflict', remote: await fetchOne(investment.id, userId) };
+    },
+
+    async updateValues(investment, baseUpdatedAt) {
+      const userId = await requireUserId();
+
+      // Não muda `updated_at` (a versão só muda com edições do usuário), mas só grava sobre a versão base
+      let query = supabase
+        .from('investments')
+        .update({
+          income_tax: investment.incomeTax,
+          future_value: investment.futureValue,
+          net_future_value: investment.netFutureValue,
+        })
+        .eq('id', investment.id)
+        .eq('user_id', userId);
+      if (baseUpdatedAt != null) query = query.eq('updated_at', new Date(baseUpdatedAt).toISOString());
+
+      const { data, error } = await query.select();
+      if (error) throw error;
+      if (data && data.length > 0) return { status: 'saved', investment: toCamelCase(data[0]) };
+
+      // Editado em outro dispositivo desde a versão base: o recálculo antigo é descartado e vale o do servidor
+      return { status: 'saved', investment: await fetchOne(investment.id, userId) };
+    },
+
+    async remove(id, baseUpdatedAt) {
+      const userId = await requireUserId();
+
+      if (baseUpdatedAt == null) {
+        const remote = await fetchOne(id, userId);
+        return remote ? { status: 'conflict', remote } : { status: 'saved', investment: null };
+      }
+
+      const { data, error } = await supabase
+        .from('investments')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .eq('updated_at', new Date(baseUpdatedAt).toISOString())
+        .select();
+      if (error) throw error;
+      if (data && data.length > 0) return { status: 'saved', investment: null };
+
+      const remote = await fetchOne(id, userId);
+      return remote ? { status: 'conflict', remote } : { status: 'saved', investment: null };
+    },
+  };
+};
+
+// Executa a consulta com o usuário autenticado; erros retornados (`throw error`) ou lançados viram falhas tipadas
+const runForUser = async <T>(action: string, query: (userId: string) => Promise<T>): Promise<ServiceResult<T>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) return fail('auth', `Entre na sua conta para ${action}.`);
+
+  try {
+    return ok(await query(userId));
+  } catch (error) {
+    return toFailure(error, action);
+  }
+};
+
+// Registros de auditoria passam por uma fila no navegador: sem conexão (como as edições offline dos
+// investimentos), eles ficam guardados e são enviados na próxima gravação ou consulta
+const createAuditRepository = (supabase: SupabaseClient): AuditRepository => {
+  const pendingFor = (userId: string) => createLocalStore<AuditEntry>(`audit:${userId}:pending`);
+
+  const flushPending = async (userId: string) => {
+    const pending = pendingFor(userId);
+    const entries = pending.read();
+    if (entries.length === 0) return;
+
+    const { error } = await supabase
+      .from('audit_log')
+      .upsert(entries.map(entry => toAuditRow(entry, userId)), { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) throw error;
+    const sent = new Set(entries.map(entry => entry.id));
+    pending.write(pending.read().filter(entry => !sent.has(entry.id)));
+  };
+
+  const tryFlush = async (userId: string) => {
+    try {
+      await flushPending(userId);
+    } catch (error) {
+      console.error('Histórico de alterações guardado no navegador até a próxima sincronização:', error);
+    }
+  };
+
+  return {
+    async list(filter = {}) {
+      return runForUser('buscar o histórico de alterações', async userId => {
+        await tryFlush(userId);
+
+        let query = supabase
+          .from('audit_log')
+          .select('*')
+          .eq('user_id', userId)
+          .order('changed_at', { ascending: false });
+        if (filter.entityType) query = query.eq('entity_type', filter.entityType);
+        if (filter.entityId) query = query.eq('entity_id', filter.entityId);
+        if (filter.limit) query = query.limit(filter.limit);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        // Registros ainda não enviados aparecem junto com os do servidor
+        return filterAuditEntries([...pendingFor(userId).read(), ...(data?.map(toAuditEntry) || [])], filter);
+      });
+    },
+
+    async add(entries) {
+      return runForUser('registrar a alteração no histórico', async userId => {
+        const saved: AuditEntry[] = entries.map(entry => ({ ...entry, id: crypto.randomUUID() }));
+        const pending = pendingFor(userId);
+        if (!pending.write([...pending.read(), ...saved])) {
+          throw new Error('Armazenamento do navegador indisponível para o histórico de alterações');
+        }
+        await tryFlush(userId);
+        return saved;
+      });
+    },
+  };
+};
+
+// Cada consulta é filtrada pelo usuário autenticado (além das políticas de RLS)
+export const createSupabaseRepositories = (): Repositories => {
+  const supabase = getSupabase();
+
+  return {
+    // ============ INVESTMENTS ============
+    // Cache local + fila de sincronização; o servidor é acessado por `createInvestmentRemote`
+    investments: createSyncedInvestmentRepository(createInvestmentRemote(supabase)),
+
+    // ============ MARKET RATES ============
+    rates: {
+      async getCurrent() {
+        return runForUser('buscar as taxas de mercado', async userId => {
+          const { data, error } = await supabase
+            .from('market_projection')
+            .select('*')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+          if (error) throw error;
+          return data ? { cdi: Number(data.cdi), ipca: Number(data.ipca) } : null;
+        });
+      },
+
+      async saveCurrent(rates) {
+        return runForUser('salvar as taxas de mercado', async userId => {
+          const { error } = await supabase
+            .from('market_projection')
+            .upsert({ user_id: userId, cdi: rates.cdi, ipca: rates.ipca, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+          if (error) throw error;
+        });
+      },
+
+      async listHistory() {
+        return runForUser('buscar o histórico de taxas', async userId => {
+          const { data, error } = await supabase
+            .from('market_rates')
+            .select('*')
+            .eq('user_id', userId)
+            .order('effective_date', { ascending: true });
+
+          if (error) throw error;
+          return data?.map(toRateHistoryEntry) || [];
+        });
+      },
+
+      async saveHistory(entries) {
+        return runForUser('salvar o histórico de taxas', async userId => {
+          const rows = entries.map(entry => ({
+            user_id: userId,
+            effective_date: entry.effectiveDate,
+            cdi: entry.cdi,
+            ipca: entry.ipca,
+            updated_at: new Date().toISOString(),
+          }));
+
+          const { data, error } = await supabase
+            .from('market_rates')
+            .upsert(rows, { onConflict: 'user_id,effective_date' })
+            .select();
+
+          if (error) throw error;
+          return data?.map(toRateHistoryEntry) || [];
+        });
+      },
+
+      async removeHistory(id) {
+        return runForUser('remover a taxa histórica', async userId => {
+          const { error } = await supabase
+            .from('market_rates')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+          if (error) throw error;
+        });
+      },
+
+      async getCurve() {
+        return runForUser('buscar a curva de juros', async userId => {
+          const { data, error } = await supabase
+            .from('rate_curve')
+            .select('*')
+            .eq('user_id', userId)
+            .order('effective_date', { ascending: true });
+
+          if (error) throw error;
+          return data?.map(row => ({
+            effectiveDate: row.effective_date,
+            cdi: Number(row.cdi),
+            ipca: Number(row.ipca),
+          })) || [];
+        });
+      },
+
+      async saveCurve(curve) {
+        // Grava os vértices antes de remover os que saíram: se algo falhar, a curva anterior continua inteira
+        return runForUser('salvar a curva de juros', async userId => {
+          if (curve.length > 0) {
+            const { error } = await supabase
+              .from('rate_curve')
+              .upsert(
+                curve.map(v => ({ user_id: userId, effective_date: v.effectiveDate, cdi: v.cdi, ipca: v.ipca })),
+                { onConflict: 'user_id,effective_date' }
+              );
+
+            if (error) throw error;
+          }
+
+          let stale = supabase
+            .from('rate_curve')
+            .delete()
+            .eq('user_id', userId);
+          if (curve.length > 0) stale = stale.not('effective_date', 'in', `(${curve.map(v => v.effectiveDate).join(',')})`);
+
+          const { error } = await stale;
+          if (error) throw error;
+        });
+      },
+    },
+
+    // ============ CUSTOM INSTITUTIONS ============
+    institutions: {
+      async list() {
+        return runForUser('buscar as instituições personalizadas', async userId => {
+          const { data, error } = await supabase
+            .from('custom_banks')
+            .select('*')
+            .eq('user_id', userId)
+            .order('name', { ascending: true });
+
+          if (error) throw error;
+          return data?.map(toCustomBank) || [];
+        });
+      },
+
+      async add(item) {
+        return runForUser('adicionar a instituição', async userId => {
+          const { data, error } = await supabase
+            .from('custom_banks')
+            .insert({
+              user_id: userId,
+              name: item.name.trim(),
+              is_broker: item.isBroker,
+              is_conglomerate: item.isConglomerate,
+              is_title: item.isTitle,
+            })
+            .select()
+            .single();
+
+          if (error) throw error;
+          return toCustomBank(data);
+        });
+      },
+
+      async remove(id) {
+        return runForUser('remover a instituição', async userId => {
+          const { error } = await supabase
+            .from('custom_banks')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+          if (error) throw error;
+        });
+      },
+    },
+
+    // ============ FGC GUARANTEE EVENTS ============
+    fgcEvents: {
+      async list() {
+        return runForUser('buscar os eventos de garantia do FGC', async userId => {
+          const { data, error } = await supabase
+            .from('fgc_events')
+            .select('*')
+            .eq('user_id', userId)
+            .order('event_date', { ascending: false });
+
+          if (error) throw error;
+          return data?.map(toGuaranteeEvent) || [];
+        });
+      },
+
+      async add(event) {
+        return runForUser('registrar o evento de garantia do FGC', async userId => {
+          const { data, error } = await supabase
+            .from('fgc_events')
+            .insert({
+              user_id: userId,
+              institution: event.institution.trim(),
+              event_date: event.eventDate,
+              amount_paid: event.amountPaid,
+              holder_id: event.holderId || null,
+              notes: event.notes || null,
+            })
+            .select()
+            .single();
+
+          if (error) throw error;
+          return toGuaranteeEvent(data);
+        });
+      },
+
+      async remove(id) {
+        return runForUser('remover o evento de garantia do FGC', async userId => {
+          const { error } = await supabase
+            .from('fgc_events')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+          if (error) throw error;
+        });
+      },
+    },
+
+    // ============ HOLDERS ============
+    holders: {
+      async list() {
+        return runForUser('buscar os titulares', async userId => {
+          const { data, error } = await supabase
+            .from('holders')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: true });
+
+          if (error) throw error;
+          return data?.map(toHolder) || [];
+        });
+      },
+
+      async add(holder) {
+        return runForUser('adicionar o titular', async userId => {
+          const { data, error } = await supabase
+            .from('holders')
+            .insert({
+              user_id: userId,
+              name: holder.name.trim(),
+              cpf: holder.cpf?.trim() || null,
+            })
+            .select()
+            .single();
+
+          if (error) throw error;
+          return toHolder(data);
+        });
+      },
+
+      async remove(id) {
+        return runForUser('remover o titular', async userId => {
+          const { error } = await supabase
+            .from('holders')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+          if (error) throw error;
+        });
+      },
+    },
+
+    // ============ AUDIT LOG ============
+    audit: createAuditRepository(supabase),
+  };
+};
@@ -0,0 +1,348 @@
+import type { Investment } from '../types';
+import type { InvestmentRepository } from './repository';
+import { createLocalStore, LocalStore } from './localRepository';
+import { getSession } from './authService';
+import { fail, isFailure, ok, ServiceResult } from './result';
+
+// ============ TYPES ============
+
+// `investment`/`remote` nulos: o investimento não existe (mais) no servidor
+export type RemoteWriteResult =
+  | { status: 'saved'; investment: Investment | null }
+  | { status: 'conflict'; remote: Investment | null };
+
+// Operações no servidor. Falhas de rede ou do servidor são lançadas para que a alteração continue na fila;
+// `update` e `remove` só gravam se a versão remota ainda for `baseUpdatedAt`. `updateValues` grava só os
+// valores calculados (IR, bruto e líquido) sem mudar a versão: recálculo não é edição e não gera conflito;
+// sobre uma versão que já mudou no servidor, ele é descartado
+export interface InvestmentRemote {
+  list(): Promise<Investment[]>;
+  insert(investment: Investment): Promise<RemoteWriteResult>;
+  update(investment: Investment, baseUpdatedAt?: number): Promise<RemoteWriteResult>;
+  updateValues(investment: Investment, baseUpdatedAt?: number): Promise<RemoteWriteResult>;
+  remove(id: string, baseUpdatedAt?: number): Promise<RemoteWriteResult>;
+}
+
+// recalculate = valores recalculados pelas taxas de mercado (veja `updateValues`)
+export type SyncOperation = 'add' | 'update' | 'delete' | 'recalculate';
+
+export interface PendingChange {
+  id: string;
+  operation: SyncOperation;
+  investment: Investment;          // Versão local (no delete, a última conhecida)
+  baseUpdatedAt?: number;          // Versão do servidor sobre a qual a edição foi feita
+  queuedAt: number;
+  conflict?: { remote: Investment | null }; // Preenchido quando o servidor mudou desde a versão base
+}
+
+export type SyncState = 'synced' | 'syncing' | 'pending' | 'offline' | 'conflict';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  conflicts: PendingChange[];
+  lastError?: string;
+  lastSyncedAt?: number;
+}
+
+// ============ STATUS ============
+
+type SyncListener = (status: SyncStatus) => void;
+
+const listeners = new Set<SyncListener>();
+let status: SyncStatus = { state: 'synced', pending: 0, conflicts: [] };
+
+// Motor ativo (só existe com o backend Supabase)
+let engine: { flush(): Promise<void>; resolve(changeId: string, keep: 'local' | 'remote'): Promise<void> } | null = null;
+
+const publish = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeSyncStatus = (listener: SyncListener): (() => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => listeners.delete(listener);
+};
+
+export const syncNow = async (): Promise<void> => {
+  await engine?.flush();
+};
+
+// 'local' reenvia a edição sobre a versão atual do servidor; 'remote' descarta a edição local
+export const resolveConflict = async (changeId: string, keep: 'local' | 'remote'): Promise<void> => {
+  await engine?.resolve(changeId, keep);
+};
+
+// ============ QUEUE ============
+
+const byDueDate = (a: Investment, b: Investment) => a.dueDate.localeCompare(b.dueDate);
+
+const NOT_SIGNED_IN = fail('auth', 'Entre na sua conta para salvar os investimentos.');
+
+// Junta a nova alteração à pendente do mesmo investimento (exceto a que está sendo enviada)
+const enqueue = (
+  queue: PendingChange[],
+  operation: SyncOperation,
+  investment: Investment,
+  baseUpdatedAt: number | undefined,
+  inFlightId: string | null
+): PendingChange[] => {
+  const index = queue.findIndex(c => c.investment.id === investment.id && c.id !== inFlightId);
+  if (index === -1) {
+    return [...queue, { id: crypto.randomUUID(), operation, investment, baseUpdatedAt, queuedAt: Date.now() }];
+  }
+
+  const previous = queue[index];
+  // Criado e excluído sem nunca chegar ao servidor: nada a enviar
+  if (previous.operation === 'add' && operation === 'delete') {
+    return queue.filter((_, i) => i !== index);
+  }
+
+  // Um recálculo não rebaixa uma inclusão ou edição pendente; uma edição substitui o recálculo pendente
+  const keepsPrevious = previous.operation === 'add' || (operation === 'recalculate' && previous.operation !== 'recalculate');
+  const merged: PendingChange = {
+    ...previous,
+    operation: keepsPrevious ? previous.operation : operation,
+    investment,
+  };
+  return queue.map((c, i) => i === index ? merged : c);
+};
+
+// Edições vão primeiro para o cache local e para a fila; a fila é enviada ao servidor em segundo plano
+// e reenviada quando a conexão volta
+export const createSyncedInvestmentRepository = (remote: InvestmentRemote): InvestmentRepository => {
+  let flushing: Promise<void> | null = null;
+  let inFlightId: string | null = null;
+
+  // Cache e fila separados por usuário
+  const storesFor = async (): Promise<{ cache: LocalStore<Investment>; queue: LocalStore<PendingChange> } | null> => {
+    const session = await getSession();
+    if (!session) return null;
+    return {
+      cache: createLocalStore<Investment>(`cache:${session.user.id}:investments`),
+      queue: createLocalStore<PendingChange>(`sync:${session.user.id}:queue`),
+    };
+  };
+
+  const refreshStatus = (queue: PendingChange[], changes: Partial<SyncStatus> = {}) => {
+    const conflicts = queue.filter(c => c.conflict);
+    let state: SyncState = 'synced';
+    if (conflicts.length > 0) state = 'conflict';
+    else if (queue.length > 0) state = navigator.onLine ? 'pending' : 'offline';
+    publish({ state, pending: queue.length, conflicts, lastError: undefined, ...changes });
+  };
+
+  const sendChange = (change: PendingChange): Promise<RemoteWriteResult> => {
+    if (change.operation === 'add') return remote.insert(change.investment);
+    if (change.operation === 'update') return remote.update(change.investment, change.baseUpdatedAt);
+    if (change.operation === 'recalculate') return remote.updateValues(change.investment, change.baseUpdatedAt);
+    return remote.remove(change.investment.id, change.baseUpdatedAt);
+  };
+
+  const runFlush = async () => {
+    const stores = await storesFor();
+    if (!stores) return;
+
+    if (!stores.queue.read().some(c => !c.conflict)) {
+      refreshStatus(stores.queue.read());
+      return;
+    }
+    if (!navigator.onLine) {
+      refreshStatus(stores.queue.read(), { state: 'offline' });
+      return;
+    }
+
+    publish({ state: 'syncing' });
+
+    // Relê a fila a cada envio: edições feitas durante a sincronização entram na mesma rodada
+    const attempted = new Set<string>();
+    for (;;) {
+      const queued = stores.queue.read();
+      // Edições sobre uma inclusão ainda não confirmada esperam a versão que o servidor gravar para ela
+      const awaitsInsert = (c: PendingChange) => c.operation !== 'add'
+        && queued.some(other => other.operation === 'add' && other.investment.id === c.investment.id);
+      const change = queued.find(c => !c.conflict && !attempted.has(c.id) && !awaitsInsert(c));
+      if (!change) break;
+      attempted.add(change.id);
+
+      inFlightId = change.id;
+      let result: RemoteWriteResult;
+      try {
+        result = await sendChange(change);
+      } catch (error) {
+        console.error('Erro ao sincronizar alteração:', error);
+        refreshStatus(stores.queue.read(), {
+          state: navigator.onLine ? 'pending' : 'offline',
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+        return;
+      } finally {
+        inFlightId = null;
+      }
+
+      let queue = stores.queue.read();
+      if (result.status === 'conflict') {
+        const conflict = { remote: result.remote };
+        queue = queue.map(c => c.id === change.id ? { ...c, conflict } : c);
+      } else {
+        const saved = result.investment;
+        const investmentId = change.investment.id;
+        queue = queue.filter(c => c.id !== change.id);
+        const hasNewerEdit = queue.some(c => c.investment.id === investmentId);
+
+        // Edições feitas durante o envio partem da versão recém-gravada; o recálculo não gera versão nova,
+        // então elas mantêm a versão sobre a qual foram feitas
+        if (change.operation !== 'recalculate') {
+          queue = queue.map(c => c.investment.id === investmentId ? { ...c, baseUpdatedAt: saved?.updatedAt } : c);
+        }
+        if (saved && !(change.operation === 'recalculate' && hasNewerEdit)) {
+          stores.cache.write(stores.cache.read().map(inv => {
+            if (inv.id !== investmentId) return inv;
+            return hasNewerEdit ? { ...inv, updatedAt: saved.updatedAt } : saved;
+          }));
+        }
+      }
+      stores.queue.write(queue);
+    }
+
+    const queue = stores.queue.read();
+    refreshStatus(queue, queue.some(c => !c.conflict) ? {} : { lastSyncedAt: Date.now() });
+  };
+
+  const flush = (): Promise<void> => {
+    if (!flushing) {
+      flushing = runFlush().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  };
+
+  // Aplica no cache, enfileira e dispara o envio sem esperar o servidor
+  const applyLocally = async (operation: SyncOperation, investments: Investment[]): Promise<ServiceResult<void>> => {
+    const stores = await storesFor();
+    if (!stores) return NOT_SIGNED_IN;
+
+    let cache = stores.cache.read();
+    let queue = stores.queue.read();
+    for (const investment of investments) {
+      const current = cache.find(inv => inv.id === investment.id);
+      // O cache guarda a versão do servidor sobre a qual a cópia local foi editada
+      const baseUpdatedAt = current?.updatedAt;
+      if (operation === 'delete') {
+        cache = cache.filter(inv => inv.id !== investment.id);
+      } else if (current) {
+        cache = cache.map(inv => inv.id === investment.id ? { ...investment, updatedAt: baseUpdatedAt } : inv);
+      } else {
+        cache = [...cache, { ...investment, updatedAt: undefined }];
+      }
+      queue = enqueue(queue, operation, investment, baseUpdatedAt, inFlightId);
+    }
+
+    if (!stores.cache.write(cache) || !stores.queue.write(queue)) {
+      return fail('storage', 'Não foi possível guardar a alteração: o armazenamento do navegador está cheio ou bloqueado.');
+    }
+    refreshStatus(queue);
+    void flush();
+    return ok(undefined);
+  };
+
+  const resolve = async (changeId: string, keep: 'local' | 'remote') => {
+    const stores = await storesFor();
+    if (!stores) return;
+
+    const queue = stores.queue.read();
+    const change = queue.find(c => c.id === changeId);
+    if (!change?.conflict) return;
+
+    const remoteVersion = change.conflict.remote;
+    const investmentId = change.investment.id;
+
+    if (keep === 'remote') {
+      const cache = stores.cache.read().filter(inv => inv.id !== investmentId);
+      stores.cache.write(remoteVersion ? [...cache, remoteVersion] : cache);
+      stores.queue.write(queue.filter(c => c.id !== changeId));
+    } else {
+      // Sem versão remota, a edição local recria o investimento (ou a exclusão já está feita)
+      let operation: SyncOperation | null = change.operation;
+      if (!remoteVersion) operation = change.operation === 'delete' ? null : 'add';
+      else if (change.operation === 'add') operation = 'update';
+
+      stores.queue.write(operation
+        ? queue.map(c => c.id === changeId
+          ? { ...c, operation, baseUpdatedAt: remoteVersion?.updatedAt, conflict: undefined }
+          : c)
+        : queue.filter(c => c.id !== changeId));
+      stores.cache.write(stores.cache.read().map(inv =>
+        inv.id === investmentId ? { ...inv, updatedAt: remoteVersion?.updatedAt } : inv
+      ));
+    }
+
+    refreshStatus(stores.queue.read());
+    await flush();
+  };
+
+  engine = { flush, resolve };
+
+  window.addEventListener('online', () => void flush());
+  window.addEventListener('offline', async () => {
+    const stores = await storesFor();
+    if (stores) refreshStatus(stores.queue.read());
+  });
+
+  return {
+    async list() {
+      await flush();
+      const stores = await storesFor();
+      if (!stores) return NOT_SIGNED_IN;
+
+      try {
+        const remoteInvestments = await remote.list();
+        const byId = new Map(remoteInvestments.map(inv => [inv.id, inv]));
+
+        // Alterações ainda não enviadas prevalecem sobre o que veio do servidor
+        stores.queue.read().forEach(change => {
+          if (change.operation === 'delete') byId.delete(change.investment.id);
+          else byId.set(change.investment.id, { ...change.investment, updatedAt: change.baseUpdatedAt });
+        });
+
+        const merged = [...byId.values()].sort(byDueDate);
+        stores.cache.write(merged);
+        return ok(merged);
+      } catch (error) {
+        console.error('Servidor indisponível, usando a cópia local dos investimentos:', error);
+        refreshStatus(stores.queue.read(), {
+          ...(navigator.onLine ? {} : { state: 'offline' as const }),
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+        return ok(stores.cache.read().sort(byDueDate));
+      }
+    },
+
+    async add(investment) {
+      const result = await applyLocally('add', [investment]);
+      return isFailure(result) ? result : ok(investment);
+    },
+
+    async update(investment) {
+      const result = await applyLocally('update', [investment]);
+      return isFailure(result) ? result : ok(investment);
+    },
+
+    async remove(id) {
+      const stores = await storesFor();
+      if (!stores) return NOT_SIGNED_IN;
+      const current = stores.cache.read().find(inv => inv.id === id);
+      if (!current) return fail('not_found', 'Investimento não encontrado: ele pode ter sido removido.');
+      return applyLocally('delete', [current]);
+    },
+
+    async saveMany(investments) {
+      return applyLocally('recalculate', investments);
+    },
+  };
+};
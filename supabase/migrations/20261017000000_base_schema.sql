@@ -0,0 +1,36 @@
+-- Tabelas originais do app (criadas antes das migrações); num projeto novo precisam existir
+-- antes de 20261018000000_user_ownership.sql
+
+create table if not exists investments (
+  id uuid primary key default gen_random_uuid(),
+  broker text,
+  conglomerate text,
+  bank text not null,
+  title text not null,
+  type text not null,
+  amount numeric not null,
+  quantity numeric,
+  interest_rate numeric not null,
+  income_tax numeric,
+  start_date date not null,
+  due_date date not null,
+  future_value numeric,
+  net_future_value numeric,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists custom_banks (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  is_broker boolean not null default false,
+  is_conglomerate boolean not null default false,
+  is_title boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists market_rates (
+  id uuid primary key default gen_random_uuid(),
+  cdi numeric not null,
+  ipca numeric not null,
+  updated_at timestamptz not null default now()
+);
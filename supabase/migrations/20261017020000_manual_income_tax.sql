@@ -0,0 +1,3 @@
+-- Alíquota de IR digitada pelo usuário: quando verdadeiro, income_tax não segue a tabela regressiva
+
+alter table investments add column if not exists manual_income_tax boolean not null default false;
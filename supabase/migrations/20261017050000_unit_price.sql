@@ -0,0 +1,3 @@
+-- PU de compra dos títulos do Tesouro (LTN/NTN-B); nulo nos demais
+
+alter table investments add column if not exists unit_price numeric;
@@ -0,0 +1,10 @@
+-- Pagamentos de garantia recebidos do FGC; o limite global de R$ 1 milhão em 4 anos conta a partir deles
+
+create table if not exists fgc_events (
+  id uuid primary key default gen_random_uuid(),
+  institution text not null,
+  event_date date not null,
+  amount_paid numeric not null check (amount_paid >= 0),
+  notes text,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,10 @@
+-- market_rates passa a ser a série histórica realizada: uma linha por data de vigência
+
+-- A linha única de antes era a projeção digitada pelo usuário, não uma taxa que vigorou: fica guardada
+-- à parte (vira market_projection mais adiante) e a série realizada começa vazia
+create table if not exists market_rates_legacy as select cdi, ipca, updated_at from market_rates;
+delete from market_rates;
+
+alter table market_rates add column if not exists effective_date date not null;
+
+alter table market_rates add constraint market_rates_effective_date_key unique (effective_date);
@@ -0,0 +1,10 @@
+-- Curva a termo: expectativa de CDI e IPCA a partir de cada data de vigência (Focus anual, DI futuro)
+
+create table if not exists rate_curve (
+  id uuid primary key default gen_random_uuid(),
+  effective_date date not null,
+  cdi numeric not null,
+  ipca numeric not null,
+  created_at timestamptz not null default now(),
+  constraint rate_curve_effective_date_key unique (effective_date)
+);
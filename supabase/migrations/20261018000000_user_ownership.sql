@@ -0,0 +1,34 @@
+-- Cada linha pertence a um usuário do Supabase Auth; as políticas de RLS
+-- impedem que a chave anônima leia ou altere dados de outras pessoas.
+
+alter table investments   add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table market_rates  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table rate_curve    add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table fgc_events    add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table custom_banks  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table market_rates_legacy add column if not exists user_id uuid references auth.users (id) on delete cascade;
+
+-- Linhas antigas (sem dono) ficam invisíveis até serem atribuídas manualmente:
+-- update investments set user_id = '<uuid>' where user_id is null;  (idem nas demais tabelas)
+
+-- A série de taxas passa a ser única por usuário e data de vigência
+alter table market_rates drop constraint if exists market_rates_effective_date_key;
+alter table market_rates add constraint market_rates_user_effective_date_key unique (user_id, effective_date);
+
+create index if not exists investments_user_id_idx  on investments (user_id);
+create index if not exists rate_curve_user_id_idx   on rate_curve (user_id);
+create index if not exists fgc_events_user_id_idx   on fgc_events (user_id);
+create index if not exists custom_banks_user_id_idx on custom_banks (user_id);
+
+alter table investments  enable row level security;
+alter table market_rates enable row level security;
+alter table rate_curve   enable row level security;
+alter table fgc_events   enable row level security;
+alter table custom_banks enable row level security;
+alter table market_rates_legacy enable row level security; -- Sem política: só as migrações leem
+
+create policy "owner_all" on investments  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "owner_all" on market_rates for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "owner_all" on rate_curve   for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "owner_all" on fgc_events   for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "owner_all" on custom_banks for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
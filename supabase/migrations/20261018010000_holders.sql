@@ -0,0 +1,19 @@
+-- Titulares (CPFs) da carteira; aplicações conjuntas guardam a participação de cada um
+
+create table if not exists holders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  name text not null,
+  cpf text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists holders_user_id_idx on holders (user_id);
+
+alter table holders enable row level security;
+create policy "owner_all" on holders for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- [{ "holderId": "<uuid>", "percentage": 50 }, ...]; nulo = titular único
+alter table investments add column if not exists holders jsonb;
+
+alter table fgc_events add column if not exists holder_id uuid references holders (id) on delete set null;
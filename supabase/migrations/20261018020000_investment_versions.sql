@@ -0,0 +1,4 @@
+-- Versão de cada investimento para a fila de sincronização offline: edições só são gravadas
+-- se `updated_at` ainda for a versão sobre a qual foram feitas (precisão de milissegundos, como no app)
+
+alter table investments add column if not exists updated_at timestamptz not null default date_trunc('milliseconds', now());
@@ -0,0 +1,8 @@
+-- Situação da aplicação e valor efetivamente recebido ao encerrá-la
+
+alter table investments add column if not exists status text not null default 'active'
+  check (status in ('active', 'matured', 'redeemed_early', 'fgc_claim'));
+
+-- Preenchidos no resgate (no pagamento, para posições em garantia do FGC)
+alter table investments add column if not exists redemption_date date;
+alter table investments add column if not exists redemption_net_amount numeric;
@@ -0,0 +1,10 @@
+-- Liquidez da aplicação e resgates parciais
+
+alter table investments add column if not exists liquidity text not null default 'at_maturity'
+  check (liquidity in ('daily', 'at_maturity', 'grace_period'));
+
+-- Fim da carência (apenas liquidez 'grace_period')
+alter table investments add column if not exists liquidity_available_from date;
+
+-- [{ "id": "<uuid>", "date": "2026-10-18", "grossAmount": 10000, "principalAmount": 9500, "netAmount": 9910 }, ...]
+alter table investments add column if not exists partial_redemptions jsonb;
@@ -0,0 +1,22 @@
+-- Histórico de alterações (criação, edição, exclusão e restauração) de investimentos, taxas e instituições
+
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  entity_type text not null check (entity_type in ('investment', 'rate', 'institution')),
+  entity_id text not null, -- Para taxas, a data de vigência
+  entity_label text not null,
+  action text not null check (action in ('create', 'update', 'delete', 'restore')),
+  changed_at timestamptz not null default now(),
+  changed_by text,
+  before_data jsonb,
+  after_data jsonb,
+  changes jsonb not null default '[]'::jsonb -- [{ "field": "amount", "before": 1000, "after": 1500 }, ...]
+);
+
+create index if not exists audit_log_user_entity_idx on audit_log (user_id, entity_type, entity_id, changed_at desc);
+
+-- O histórico só recebe inclusões: sem políticas de update/delete, registros não podem ser reescritos
+alter table audit_log enable row level security;
+create policy "owner_select" on audit_log for select to authenticated using (user_id = auth.uid());
+create policy "owner_insert" on audit_log for insert to authenticated with check (user_id = auth.uid());
@@ -0,0 +1,5 @@
+-- Lixeira: investimentos excluídos ficam guardados com a data da exclusão até serem restaurados ou apagados
+
+alter table investments add column if not exists deleted_at timestamptz;
+
+create index if not exists investments_user_deleted_idx on investments (user_id, deleted_at);
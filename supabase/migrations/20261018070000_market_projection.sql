@@ -0,0 +1,27 @@
+-- Projeção de CDI e IPCA usada após a última data realizada; fica fora de market_rates,
+-- que guarda só as taxas que de fato vigoraram
+
+create table if not exists market_projection (
+  user_id uuid primary key references auth.users (id) on delete cascade default auth.uid(),
+  cdi numeric not null,
+  ipca numeric not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table market_projection enable row level security;
+create policy "owner_all" on market_projection for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- A projeção salva antes da série histórica ficou em market_rates_legacy; instalações com um único
+-- usuário ficam com ela automaticamente
+update market_rates_legacy set user_id = (select id from auth.users limit 1)
+where user_id is null and (select count(*) from auth.users) = 1;
+
+insert into market_projection (user_id, cdi, ipca, updated_at)
+select distinct on (user_id) user_id, cdi, ipca, updated_at
+from market_rates_legacy
+where user_id is not null
+order by user_id, updated_at desc
+on conflict (user_id) do nothing;
+
+-- Linhas ainda sem dono continuam guardadas: atribua o user_id e repita o insert acima
+delete from market_rates_legacy where user_id is not null;
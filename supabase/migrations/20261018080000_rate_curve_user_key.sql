@@ -0,0 +1,4 @@
+-- Os vértices da curva passam a ser gravados por upsert: um por usuário e data de vigência
+
+alter table rate_curve drop constraint if exists rate_curve_effective_date_key;
+alter table rate_curve add constraint rate_curve_user_effective_date_key unique (user_id, effective_date);
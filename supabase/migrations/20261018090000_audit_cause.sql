@@ -0,0 +1,3 @@
+-- Origem das alterações automáticas: 'recalculation' = valores projetados recalculados após mudança nas taxas
+
+alter table audit_log add column if not exists cause text check (cause in ('recalculation'));
@@ -2,6 +2,7 @@
 export enum InvestmentTitle {
   CDB = 'CDB',
   LCI = 'LCI',
+  LCA = 'LCA',
   LTN = 'LTN',
   NTNB = 'NTN-B'
 }
@@ -12,6 +13,56 @@ export enum InvestmentType {
   PREFIXADO = 'Prefixado'
 }
 
+// Corretora, conglomerado, banco ou título cadastrado pelo usuário
+export interface CustomBank {
+  id: string;
+  name: string;
+  isBroker: boolean;
+  isConglomerate: boolean;
+  isTitle: boolean;
+  createdAt: string;
+}
+
+// Titular (CPF) da carteira; o FGC garante cada CPF separadamente
+export interface Holder {
+  id: string;
+  name: string;
+  cpf?: string;
+  createdAt: number;
+}
+
+// Participação de um titular na aplicação (contas conjuntas somam 100%)
+export interface HolderShare {
+  holderId: string;
+  percentage: number;
+}
+
+// Situação da aplicação: só as ativas entram nos totais ao vivo e na exposição ao FGC
+export type InvestmentStatus = 'active' | 'matured' | 'redeemed_early' | 'fgc_claim';
+
+// Valor efetivamente recebido ao encerrar a posição (vencimento, resgate ou pagamento do FGC)
+export interface InvestmentRedemption {
+  date: string;      // ISO Date - Data do crédito
+  netAmount: number; // Valor líquido recebido
+}
+
+// Quando o dinheiro pode ser retirado antes do vencimento
+export type LiquidityType = 'daily' | 'at_maturity' | 'grace_period';
+
+export interface Liquidity {
+  type: LiquidityType;
+  availableFrom?: string; // ISO Date - fim da carência (apenas 'grace_period')
+}
+
+// Retirada de parte da posição; o principal consumido reduz o saldo aplicado
+export interface PartialRedemption {
+  id: string;
+  date: string;            // ISO Date
+  grossAmount: number;     // Valor bruto retirado
+  principalAmount: number; // Parte do principal consumida (FIFO, em ordem de data)
+  netAmount?: number;      // Valor líquido creditado, se informado
+}
+
 export interface Investment {
   id: string;
   broker: string;
@@ -21,16 +72,83 @@ export interface Investment {
   type: InvestmentType;
   amount: number;
   quantity: number;
+  unitPrice?: number;   // PU de compra (LTN/NTN-B)
   interestRate: number; // Percentual (Ex: 110 para CDI, 12.5 para Prefixado)
-  incomeTax: number;    // Percentual estimado (Ex: 15)
+  incomeTax: number;    // Alíquota de IR aplicada (Ex: 15)
+  manualIncomeTax?: boolean; // true = alíquota digitada pelo usuário, ignora a tabela regressiva
+  holders?: HolderShare[]; // Vazio = carteira de titular único
+  status?: InvestmentStatus; // Ausente = 'active'
+  redemption?: InvestmentRedemption; // Em garantia do FGC, fica vazio até o pagamento
+  liquidity?: Liquidity; // Ausente = no vencimento
+  partialRedemptions?: PartialRedemption[];
   startDate: string;    // ISO Date - Data da aplicação
   dueDate: string;      // ISO Date - Data de vencimento
   futureValue: number;     // Valor BRUTO (usado para FGC)
   netFutureValue: number;  // Valor LÍQUIDO (usado para patrimônio)
   createdAt: number;
+  updatedAt?: number; // Versão gravada no servidor (detecção de conflitos na sincronização)
+  deletedAt?: string; // ISO DateTime - Na lixeira desde; fora de todos os totais até ser restaurado
 }
 
-export interface MarketRates {
+// Pagamento de garantia recebido do FGC (ex.: liquidação de uma instituição)
+export interface FgcGuaranteeEvent {
+  id: string;
+  institution: string;
+  eventDate: string; // ISO Date - Data do pagamento pelo FGC
+  amountPaid: number;
+  holderId?: string; // Titular que recebeu a garantia (o limite global é por CPF)
+  notes?: string;
+  createdAt: number;
+}
+
+// Taxas vigentes a partir de uma data (série histórica de CDI e IPCA)
+export interface RateHistoryEntry {
+  id: string;
+  effectiveDate: string; // ISO Date - Início da vigência
+  cdi: number;  // Anual (%)
+  ipca: number; // Anual (%)
+}
+
+// Vértice da curva a termo: expectativa de CDI e IPCA a partir de uma data (ex.: Focus anual, DI futuro)
+export interface RateCurveVertex {
+  effectiveDate: string; // ISO Date - Início do trecho
   cdi: number;  // Anual (%)
   ipca: number; // Anual (%)
 }
+
+// Alterações automáticas: recalculation = valores projetados recalculados após mudança nas taxas
+export type AuditCause = 'recalculation';
+
+// Registro de auditoria: quem alterou o quê, quando, com o antes e o depois
+export type AuditEntityType = 'investment' | 'rate' | 'institution';
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;     // Id do investimento/instituição; data de vigência para taxas ('projection' e 'curve' para a projeção e a curva)
+  entityLabel: string;  // Descrição legível no momento da alteração (ex.: "CDB Banco X")
+  action: AuditAction;
+  changedAt: string;    // ISO DateTime
+  changedBy?: string;   // E-mail do usuário (só com login)
+  before: Record<string, unknown> | null; // Versão anterior; nula na criação
+  after: Record<string, unknown> | null;  // Versão gravada; nula na exclusão
+  changes: AuditFieldChange[];
+  cause?: AuditCause;   // Preenchido quando a alteração não foi feita pelo usuário
+}
+
+export interface MarketRates {
+  cdi: number;  // Anual (%) - Projeção
+  ipca: number; // Anual (%) - Projeção
+  history?: RateHistoryEntry[]; // Realizado, usado para períodos passados
+  curve?: RateCurveVertex[];    // Estrutura a termo; sem curva, a projeção é plana
+}
+
+// Convenção de contagem de prazo: dias úteis/252 (ANBIMA) ou dias corridos/365
+export type DayCountConvention = 'DU/252' | 'DC/365';
@@ -0,0 +1,96 @@
+import { Investment } from '../types';
+import { countCalendarDays, toISODate, toUTCDate } from './holidays';
+import { getFgcInstitution } from './fgc';
+import { getHolderFraction } from './holders';
+import { getRemainingPrincipal } from './liquidity';
+
+export type AllocationDimension = 'indexer' | 'broker' | 'conglomerate' | 'title' | 'maturity';
+export type AllocationMeasure = 'principal' | 'projected';
+
+// Fatia escolhida no gráfico, usada como filtro da lista de investimentos
+export interface AllocationFilter {
+  dimension: AllocationDimension;
+  key: string;
+}
+
+export interface AllocationSlice {
+  key: string;
+  value: number;
+  count: number;
+}
+
+export const ALLOCATION_DIMENSION_LABELS: Record<AllocationDimension, string> = {
+  indexer: 'Indexador',
+  broker: 'Corretora',
+  conglomerate: 'Conglomerado',
+  title: 'Título',
+  maturity: 'Vencimento',
+};
+
+export const ALLOCATION_MEASURE_LABELS: Record<AllocationMeasure, string> = {
+  principal: 'Valor aplicado',
+  projected: 'Líquido no vencimento',
+};
+
+// Faixas de prazo restante até o vencimento, em anos
+const MATURITY_BUCKETS: { key: string; maxYears: number }[] = [
+  { key: 'Até 1 ano', maxYears: 1 },
+  { key: '1 a 2 anos', maxYears: 2 },
+  { key: '2 a 5 anos', maxYears: 5 },
+  { key: 'Mais de 5 anos', maxYears: Infinity },
+];
+
+const getMaturityBucket = (dueDate: string, today: string): string => {
+  const years = countCalendarDays(today, dueDate.split('T')[0]) / 365;
+  return MATURITY_BUCKETS.find(bucket => years < bucket.maxYears)!.key;
+};
+
+// Fatia do investimento na dimensão escolhida
+export const getAllocationKey = (
+  investment: Investment,
+  dimension: AllocationDimension,
+  today: string = toISODate(toUTCDate(new Date()))
+): string => {
+  switch (dimension) {
+    case 'broker':
+      return investment.broker || 'Sem corretora';
+    case 'conglomerate':
+      // Mesmo agrupamento do Monitor FGC
+      return getFgcInstitution(investment);
+    case 'title':
+      return investment.title;
+    case 'maturity':
+      return getMaturityBucket(investment.dueDate, today);
+    default:
+      return investment.type;
+  }
+};
+
+export const matchesAllocationFilter = (investment: Investment, filter: AllocationFilter | null): boolean => {
+  return !filter || getAllocationKey(investment, filter.dimension) === filter.key;
+};
+
+// Soma por fatia na participação do titular; faixas de vencimento ficam em ordem de prazo, as demais pelo valor
+export const buildAllocation = (
+  investments: Investment[],
+  dimension: AllocationDimension,
+  measure: AllocationMeasure,
+  holderId: string
+): AllocationSlice[] => {
+  const today = toISODate(toUTCDate(new Date()));
+  const slices = new Map<string, AllocationSlice>();
+
+  investments.forEach(inv => {
+    const key = getAllocationKey(inv, dimension, today);
+    const base = measure === 'principal' ? getRemainingPrincipal(inv) : inv.netFutureValue;
+    const slice = slices.get(key) || { key, value: 0, count: 0 };
+    slices.set(key, { key, value: slice.value + base * getHolderFraction(inv, holderId), count: slice.count + 1 });
+  });
+
+  const result = [...slices.values()];
+  if (dimension === 'maturity') {
+    const order = MATURITY_BUCKETS.map(bucket => bucket.key);
+    return result.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key));
+  }
+  return result.sort((a, b) => b.value - a.value);
+};
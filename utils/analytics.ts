@@ -0,0 +1,157 @@
+import { Investment, InvestmentTitle, InvestmentType, MarketRates } from '../types';
+import { calculateFutureValue } from './calculations';
+import { countCalendarDays, toISODate, toUTCDate } from './holidays';
+import { getIpcaFactor, getRateSegments } from './rates';
+import { getRemainingPrincipal, sortRedemptions } from './liquidity';
+
+// Aplicação (negativa) ou recebimento (positivo) em uma data
+interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+export interface IndexerAverage {
+  type: InvestmentType;
+  principal: number;
+  averageRate: number; // Média da taxa contratada ponderada pelo principal (% do CDI, IPCA + % ou % a.a.)
+}
+
+export type BenchmarkId = 'portfolio' | 'cdi' | 'poupanca' | 'ipca';
+
+export interface BenchmarkResult {
+  id: BenchmarkId;
+  label: string;
+  finalValue: number;  // Somado nos resgates parciais e no vencimento de cada posição
+  annualYield: number; // % a.a. (taxa interna de retorno dos mesmos fluxos)
+}
+
+export interface PortfolioAnalytics {
+  principal: number;
+  byIndexer: IndexerAverage[];
+  durationYears: number;   // Prazo médio até o vencimento, ponderado pelo principal
+  annualNetYield: number;  // % a.a. líquido de IR
+  realYield: number;       // % a.a. acima do IPCA
+  benchmarks: BenchmarkResult[];
+}
+
+const BENCHMARK_LABELS: Record<BenchmarkId, string> = {
+  portfolio: 'Carteira (líquido)',
+  cdi: '100% do CDI (líquido)',
+  poupanca: 'Poupança',
+  ipca: 'IPCA',
+};
+
+// Taxa anual que zera o valor presente dos fluxos (XIRR, dias corridos/365), por bisseção
+export const annualizedReturn = (flows: CashFlow[]): number => {
+  const valid = flows.filter(f => f.amount !== 0);
+  if (!valid.some(f => f.amount < 0) || !valid.some(f => f.amount > 0)) return 0;
+
+  const origin = valid.reduce((min, f) => f.date < min ? f.date : min, valid[0].date);
+  const timed = valid.map(f => ({ years: countCalendarDays(origin, f.date) / 365, amount: f.amount }));
+  const presentValue = (rate: number) => timed.reduce((acc, f) => acc + f.amount / Math.pow(1 + rate, f.years), 0);
+
+  let low = -0.99;
+  let high = 10;
+  if (presentValue(low) * presentValue(high) > 0) return 0;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(low) * presentValue(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return ((low + high) / 2) * 100;
+};
+
+// Poupança: 0,5% a.m. com a Selic acima de 8,5% a.a.; senão, 70% da Selic. A TR é ignorada
+// e a Selic é aproximada pelo CDI + 0,10
+export const getPoupancaAnnualRate = (cdi: number): number => {
+  const selic = cdi + 0.1;
+  return selic > 8.5 ? (Math.pow(1.005, 12) - 1) * 100 : selic * 0.7;
+};
+
+const getPoupancaFactor = (start: string, end: string, marketRates: MarketRates): number => {
+  return getRateSegments(start, end, marketRates).reduce(
+    (acc, seg) => acc * Math.pow(1 + getPoupancaAnnualRate(seg.cdi) / 100, countCalendarDays(seg.from, seg.to) / 365),
+    1
+  );
+};
+
+// Indicadores das posições abertas (já na participação do titular). Os índices de referência recebem
+// o mesmo principal nas mesmas datas de aplicação e vencimento de cada posição, e os resgates parciais
+// retiram deles a mesma parcela do principal na mesma data
+export const analyzePortfolio = (investments: Investment[], marketRates: MarketRates): PortfolioAnalytics => {
+  const today = toISODate(toUTCDate(new Date()));
+  const indexers = new Map<InvestmentType, { principal: number; weightedRate: number }>();
+  const flows: Record<BenchmarkId, CashFlow[]> = { portfolio: [], cdi: [], poupanca: [], ipca: [] };
+  const realFlows: CashFlow[] = [];
+  let principal = 0;
+  let weightedYears = 0;
+
+  investments.forEach(inv => {
+    const amount = getRemainingPrincipal(inv);
+    if (amount <= 0) return;
+    const start = inv.startDate.split('T')[0];
+    const due = inv.dueDate.split('T')[0];
+
+    principal += amount;
+    weightedYears += amount * (due > today ? countCalendarDays(today, due) / 365 : 0);
+
+    const indexer = indexers.get(inv.type) || { principal: 0, weightedRate: 0 };
+    indexers.set(inv.type, { principal: indexer.principal + amount, weightedRate: indexer.weightedRate + amount * inv.interestRate });
+
+    // Valor em `end` de um principal aplicado em cada índice na data da posição
+    const benchmarkValues = (base: number, end: string): Omit<Record<BenchmarkId, number>, 'portfolio'> => ({
+      cdi: calculateFutureValue({ title: InvestmentTitle.CDB, type: InvestmentType.CDI, interestRate: 100, amount: base, startDate: start, dueDate: end }, marketRates).net,
+      poupanca: base * getPoupancaFactor(start, end, marketRates),
+      ipca: base * getIpcaFactor(start, end, marketRates),
+    });
+
+    (Object.keys(flows) as BenchmarkId[]).forEach(id => flows[id].push({ date: start, amount: -inv.amount }));
+    realFlows.push({ date: start, amount: -inv.amount });
+
+    // Resgates parciais: o recebido na carteira e a mesma parcela do principal retirada dos índices
+    sortRedemptions(inv.partialRedemptions).forEach(r => {
+      const received = r.netAmount ?? r.grossAmount;
+      const benchmarks = benchmarkValues(r.principalAmount, r.date);
+      flows.portfolio.push({ date: r.date, amount: received });
+      (Object.keys(benchmarks) as Exclude<BenchmarkId, 'portfolio'>[]).forEach(id => {
+        flows[id].push({ date: r.date, amount: benchmarks[id] });
+      });
+      realFlows.push({ date: r.date, amount: received / getIpcaFactor(start, r.date, marketRates) });
+    });
+
+    const { net } = calculateFutureValue(inv, marketRates);
+    const finals: Record<BenchmarkId, number> = { portfolio: net, ...benchmarkValues(amount, due) };
+    (Object.keys(finals) as BenchmarkId[]).forEach(id => {
+      flows[id].push({ date: due, amount: finals[id] });
+    });
+    realFlows.push({ date: due, amount: net / getIpcaFactor(start, due, marketRates) });
+  });
+
+  const benchmarks = (Object.keys(flows) as BenchmarkId[]).map(id => ({
+    id,
+    label: BENCHMARK_LABELS[id],
+    finalValue: flows[id].filter(f => f.amount > 0).reduce((acc, f) => acc + f.amount, 0),
+    annualYield: annualizedReturn(flows[id]),
+  }));
+
+  return {
+    principal,
+    byIndexer: [...indexers.entries()].map(([type, { principal: total, weightedRate }]) => ({
+      type,
+      principal: total,
+      averageRate: total > 0 ? weightedRate / total : 0,
+    })),
+    durationYears: principal > 0 ? weightedYears / principal : 0,
+    annualNetYield: annualizedReturn(flows.portfolio),
+    realYield: annualizedReturn(realFlows),
+    benchmarks,
+  };
+};
+
+// Taxa média no formato usual do indexador
+export const describeIndexerRate = (type: InvestmentType, rate: number): string => {
+  const value = rate.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+  if (type === InvestmentType.CDI) return `${value}% do CDI`;
+  if (type === InvestmentType.IPCA) return `IPCA + ${value}% a.a.`;
+  return `${value}% a.a.`;
+};
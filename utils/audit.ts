@@ -0,0 +1,140 @@
+import { AuditAction, AuditCause, AuditEntityType, AuditEntry, AuditFieldChange, InvestmentRedemption, InvestmentStatus, Liquidity, PartialRedemption, RateCurveVertex } from '../types';
+import { formatCurrency, formatDate } from './calculations';
+import { INVESTMENT_STATUS_LABELS } from './lifecycle';
+import { describeLiquidity } from './liquidity';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Criação',
+  update: 'Edição',
+  delete: 'Exclusão',
+  restore: 'Restauração',
+};
+
+export const AUDIT_CAUSE_LABELS: Record<AuditCause, string> = {
+  recalculation: 'Recálculo',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  investment: 'Investimento',
+  rate: 'Taxas de mercado',
+  institution: 'Instituição',
+};
+
+const FIELD_LABELS: Record<AuditEntityType, Record<string, string>> = {
+  investment: {
+    broker: 'Corretora',
+    conglomerate: 'Conglomerado',
+    bank: 'Banco Emissor',
+    title: 'Título',
+    type: 'Rentabilidade',
+    amount: 'Valor Aplicado',
+    quantity: 'Quantidade',
+    unitPrice: 'Preço Unitário',
+    interestRate: 'Taxa (%)',
+    incomeTax: 'IR (%)',
+    manualIncomeTax: 'IR Manual',
+    holders: 'Titulares',
+    status: 'Situação',
+    redemption: 'Resgate',
+    liquidity: 'Liquidez',
+    partialRedemptions: 'Resgates Parciais',
+    startDate: 'Data de Aplicação',
+    dueDate: 'Vencimento',
+    futureValue: 'Valor Bruto Futuro',
+    netFutureValue: 'Valor Líquido Futuro',
+    deletedAt: 'Na Lixeira Desde',
+  },
+  rate: {
+    effectiveDate: 'Vigência',
+    cdi: 'CDI (%)',
+    ipca: 'IPCA (%)',
+    vertices: 'Vértices',
+  },
+  institution: {
+    name: 'Nome',
+    isBroker: 'Corretora',
+    isConglomerate: 'Conglomerado',
+    isTitle: 'Título',
+  },
+};
+
+// Metadados que mudam a cada gravação e não interessam no histórico
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+const CURRENCY_FIELDS = new Set(['amount', 'unitPrice', 'futureValue', 'netFutureValue']);
+const DATE_FIELDS = new Set(['startDate', 'dueDate', 'effectiveDate', 'deletedAt']);
+
+export const getFieldLabel = (entityType: AuditEntityType, field: string): string => {
+  return FIELD_LABELS[entityType][field] || field;
+};
+
+// Cópia serializável (sem `undefined`), no formato em que é gravada no registro
+export const toAuditSnapshot = (value: object | null | undefined): Record<string, unknown> | null => {
+  return value ? JSON.parse(JSON.stringify(value)) : null;
+};
+
+// Campos que mudaram entre as duas versões (na criação e na exclusão, todos os preenchidos)
+export const diffSnapshots = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditFieldChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: AuditFieldChange[] = [];
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  });
+  return changes;
+};
+
+// Separa os recálculos seguidos (gerados juntos por uma mudança de taxas) das demais entradas, mantendo a ordem
+export const groupRecalculations = (entries: AuditEntry[]): AuditEntry[][] => {
+  return entries.reduce<AuditEntry[][]>((groups, entry) => {
+    const last = groups[groups.length - 1];
+    if (entry.cause === 'recalculation' && last?.[0].cause === 'recalculation') last.push(entry);
+    else groups.push([entry]);
+    return groups;
+  }, []);
+};
+
+// Valor legível de um campo do registro
+export const formatAuditValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'number') {
+    return CURRENCY_FIELDS.has(field) ? formatCurrency(value) : value.toLocaleString('pt-BR', { maximumFractionDigits: 4 });
+  }
+  if (typeof value === 'string') {
+    if (DATE_FIELDS.has(field)) return formatDate(value);
+    if (field === 'status') return INVESTMENT_STATUS_LABELS[value as InvestmentStatus] || value;
+    return value;
+  }
+
+  switch (field) {
+    case 'liquidity':
+      return describeLiquidity({ liquidity: value as Liquidity });
+    case 'redemption': {
+      const redemption = value as InvestmentRedemption;
+      return `${formatDate(redemption.date)} · ${formatCurrency(redemption.netAmount)}`;
+    }
+    case 'partialRedemptions': {
+      const redemptions = value as PartialRedemption[];
+      const principal = redemptions.reduce((acc, r) => acc + r.principalAmount, 0);
+      return `${redemptions.length} ${redemptions.length === 1 ? 'resgate' : 'resgates'} · ${formatCurrency(principal)} de principal`;
+    }
+    case 'vertices': {
+      const vertices = value as RateCurveVertex[];
+      return vertices.map(v => `${formatDate(v.effectiveDate)}: CDI ${v.cdi}% · IPCA ${v.ipca}%`).join('; ') || '—';
+    }
+    case 'holders': {
+      const count = (value as unknown[]).length;
+      return `${count} ${count === 1 ? 'titular' : 'titulares'}`;
+    }
+    default:
+      return JSON.stringify(value);
+  }
+};
@@ -1,51 +1,99 @@
 
-import { Investment, InvestmentType, MarketRates } from '../types';
+import { DayCountConvention, Investment, InvestmentType, MarketRates } from '../types';
+import { countBusinessDays, countCalendarDays, toISODate, toUTCDate } from './holidays';
+import { getIofRate, resolveIncomeTax } from './taxes';
+import { isTesouroTitle, valueTesouro } from './tesouro';
+import { getRateSegments, RateSegment } from './rates';
+import { getOutstandingInvestment } from './liquidity';
 
 export interface CalculationResult {
   gross: number;
   net: number;
+  custodyFee?: number; // Custódia B3 (apenas Tesouro Direto)
 }
 
-export const calculateFutureValue = (
-  investment: Partial<Investment>,
-  marketRates: MarketRates
-): CalculationResult => {
-  const { amount, interestRate, dueDate, startDate, type, incomeTax } = investment;
-  
-  if (!amount || !interestRate || !dueDate || !type) return { gross: 0, net: 0 };
+// Convenção de mercado por indexador (CDI, IPCA+ e prefixados seguem DU/252 no calendário ANBIMA)
+export const DAY_COUNT_CONVENTIONS: Record<InvestmentType, DayCountConvention> = {
+  [InvestmentType.CDI]: 'DU/252',
+  [InvestmentType.IPCA]: 'DU/252',
+  [InvestmentType.PREFIXADO]: 'DU/252',
+};
 
-  const tax = (incomeTax || 0) / 100;
-  const totalPrincipal = amount;
+const DAYS_PER_YEAR: Record<DayCountConvention, number> = {
+  'DU/252': 252,
+  'DC/365': 365,
+};
 
-  // Usa a data de aplicação (startDate) ou a data atual como fallback
-  const start = startDate ? new Date(startDate) : new Date();
-  const end = new Date(dueDate);
-  
-  // Calcula o período em anos entre a data de aplicação e o vencimento
-  const diffTime = Math.abs(end.getTime() - start.getTime());
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  const diffYears = diffDays / 365;
+export const countDays = (start: string | Date, end: string | Date, convention: DayCountConvention): number => {
+  return convention === 'DU/252' ? countBusinessDays(start, end) : countCalendarDays(start, end);
+};
 
-  let annualYield = 0;
+// Prazo em anos segundo a convenção do indexador
+export const getYearFraction = (start: string | Date, end: string | Date, type: InvestmentType): number => {
+  const convention = DAY_COUNT_CONVENTIONS[type] || 'DC/365';
+  return countDays(start, end, convention) / DAYS_PER_YEAR[convention];
+};
 
+// Rentabilidade anual do título dadas as taxas (anuais, %) de CDI e IPCA do período
+export const getAnnualYield = (
+  type: InvestmentType,
+  interestRate: number,
+  rates: Pick<MarketRates, 'cdi' | 'ipca'>
+): number => {
   switch (type) {
     case InvestmentType.PREFIXADO:
-      annualYield = interestRate / 100;
-      break;
+      return interestRate / 100;
     case InvestmentType.CDI:
-      annualYield = (marketRates.cdi / 100) * (interestRate / 100);
-      break;
+      if (DAY_COUNT_CONVENTIONS[type] === 'DU/252') {
+        // O percentual do CDI incide sobre a taxa diária: (1 + CDI)^(1/252) - 1
+        const dailyCdi = Math.pow(1 + rates.cdi / 100, 1 / 252) - 1;
+        return Math.pow(1 + dailyCdi * (interestRate / 100), 252) - 1;
+      }
+      return (rates.cdi / 100) * (interestRate / 100);
     case InvestmentType.IPCA:
-      const ipcaRate = marketRates.ipca / 100;
-      const marginRate = interestRate / 100;
-      annualYield = (1 + ipcaRate) * (1 + marginRate) - 1;
-      break;
+      return (1 + rates.ipca / 100) * (1 + interestRate / 100) - 1;
     default:
-      annualYield = 0;
+      return 0;
   }
+};
+
+// Projeta o valor no vencimento ou, se informada, em `valuationDate` (sobre o saldo que resta após os resgates parciais)
+export const calculateFutureValue = (
+  position: Partial<Investment>,
+  marketRates: MarketRates,
+  valuationDate?: string
+): CalculationResult => {
+  const investment = getOutstandingInvestment(position, valuationDate);
+  const { amount, interestRate, dueDate, startDate, type, title } = investment;
+  
+  if (!amount || !interestRate || !dueDate || !type) return { gross: 0, net: 0 };
+
+  // LTN e NTN-B são precificadas pelo PU e quantidade de títulos
+  if (isTesouroTitle(title)) {
+    const { gross, net, custodyFee } = valueTesouro(investment, marketRates, valuationDate);
+    return { gross, net, custodyFee };
+  }
+
+  // Alíquota pela tabela regressiva (ou isenção/override manual)
+  const tax = resolveIncomeTax(investment, valuationDate || dueDate).rate / 100;
+  const totalPrincipal = amount;
+
+  // Usa a data de aplicação (startDate) ou a data atual como fallback
+  const start = toISODate(toUTCDate(startDate || new Date()));
+  const end = toISODate(toUTCDate(valuationDate || dueDate));
+
+  // Prefixado tem taxa única; pós-fixados acumulam trecho a trecho (realizado + projeção)
+  const segments: Pick<RateSegment, 'from' | 'to' | 'cdi' | 'ipca'>[] = type === InvestmentType.PREFIXADO
+    ? [{ from: start, to: end, cdi: marketRates.cdi, ipca: marketRates.ipca }]
+    : getRateSegments(start, end, marketRates);
+
+  const factor = segments.reduce(
+    (acc, seg) => acc * Math.pow(1 + getAnnualYield(type, interestRate, seg), getYearFraction(seg.from, seg.to, type)),
+    1
+  );
 
-  // FV Bruto = PV * (1 + r)^t
-  const grossFV = totalPrincipal * Math.pow(1 + annualYield, diffYears);
+  // FV Bruto = PV * Π (1 + r_i)^t_i
+  const grossFV = totalPrincipal * factor;
   const profit = grossFV - totalPrincipal;
   
   // Retorno líquido: Principal + (Lucro * (1 - IR))
@@ -57,6 +105,88 @@ export const calculateFutureValue = (
   };
 };
 
+export interface RedemptionResult {
+  gross: number;
+  iof: number;
+  incomeTax: number;
+  net: number;
+  custodyFee: number;
+  iofRate: number;       // % do rendimento
+  incomeTaxRate: number; // % do rendimento após IOF
+  holdingDays: number;
+}
+
+// Projeta o resgate antecipado em `redemptionDate`: rendimento até a data, IOF regressivo e IR da faixa correspondente
+export const calculateEarlyRedemption = (
+  position: Partial<Investment>,
+  marketRates: MarketRates,
+  redemptionDate: string
+): RedemptionResult => {
+  const investment = getOutstandingInvestment(position, redemptionDate);
+  const principal = investment.amount || 0;
+  const start = investment.startDate || new Date();
+  const holdingDays = countCalendarDays(start, redemptionDate);
+
+  const iofRate = getIofRate(holdingDays);
+  const incomeTaxRate = resolveIncomeTax(investment, redemptionDate).rate;
+
+  // Tesouro: cupons da NTN-B já pagos tiveram o IR retido no pagamento; o IOF só alcança o fluxo final
+  if (isTesouroTitle(investment.title)) {
+    const valuation = valueTesouro(investment, marketRates, redemptionDate);
+    const coupons = valuation.cashFlows.filter(flow => flow.kind === 'coupon').reduce((acc, flow) => acc + flow.amount, 0);
+    const finalProfit = Math.max(0, valuation.gross - coupons - principal - valuation.custodyFee);
+    const iof = finalProfit * (iofRate / 100);
+    // O IR do fluxo final incide sobre o rendimento já descontado o IOF
+    const incomeTax = valuation.incomeTax - iof * (incomeTaxRate / 100);
+    return {
+      gross: valuation.gross,
+      iof,
+      incomeTax,
+      net: valuation.gross - valuation.custodyFee - iof - incomeTax,
+      custodyFee: valuation.custodyFee,
+      iofRate,
+      incomeTaxRate,
+      holdingDays,
+    };
+  }
+
+  const { gross } = calculateFutureValue(investment, marketRates, redemptionDate);
+  const grossValue = gross || principal;
+  const profit = Math.max(0, grossValue - principal);
+  const iof = profit * (iofRate / 100);
+
+  // O IR incide sobre o rendimento já descontado o IOF
+  const incomeTax = (profit - iof) * (incomeTaxRate / 100);
+
+  return {
+    gross: grossValue,
+    iof,
+    incomeTax,
+    net: grossValue - iof - incomeTax,
+    custodyFee: 0,
+    iofRate,
+    incomeTaxRate,
+    holdingDays,
+  };
+};
+
+// Valor "na curva" em `asOf` (padrão: hoje): rendimento acumulado desde a aplicação, líquido de IOF e IR
+export const calculateCurrentValue = (
+  position: Partial<Investment>,
+  marketRates: MarketRates,
+  asOf: string = new Date().toISOString().split('T')[0]
+): CalculationResult => {
+  const investment = getOutstandingInvestment(position, asOf);
+  const principal = investment.amount || 0;
+  const { startDate, dueDate } = investment;
+
+  if (startDate && asOf <= startDate.split('T')[0]) return { gross: principal, net: principal };
+  if (dueDate && asOf >= dueDate.split('T')[0]) return calculateFutureValue(investment, marketRates);
+
+  const { gross, net } = calculateEarlyRedemption(investment, marketRates, asOf);
+  return { gross, net };
+};
+
 export const formatCurrency = (value: number) => {
   return new Intl.NumberFormat('pt-BR', {
     style: 'currency',
@@ -65,5 +195,6 @@ export const formatCurrency = (value: number) => {
 };
 
 export const formatDate = (dateString: string) => {
-  return new Date(dateString).toLocaleDateString('pt-BR');
+  // Datas ISO (YYYY-MM-DD) são meia-noite UTC: formatar em UTC evita exibir o dia anterior
+  return new Date(dateString).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
 };
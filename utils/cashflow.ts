@@ -0,0 +1,67 @@
+import { Investment, InvestmentTitle, MarketRates } from '../types';
+import { calculateFutureValue } from './calculations';
+import { toISODate, toUTCDate } from './holidays';
+import { resolveIncomeTax } from './taxes';
+import { valueTesouro } from './tesouro';
+import { getOutstandingInvestment } from './liquidity';
+
+export interface ProjectedCashFlow {
+  date: string;  // ISO Date
+  month: string; // YYYY-MM
+  investmentId: string;
+  broker: string;
+  bank: string;
+  conglomerate: string;
+  title: string;
+  kind: 'coupon' | 'maturity';
+  amount: number; // Valor líquido de IR
+}
+
+// Títulos que pagam juros periódicos (meses entre pagamentos); os demais pagam tudo no vencimento
+export const COUPON_SCHEDULES: Record<string, number> = {
+  [InvestmentTitle.NTNB]: 6,
+};
+
+export const paysCoupons = (title?: string): boolean => !!title && !!COUPON_SCHEDULES[title];
+
+const toFlow = (inv: Investment, date: string, kind: ProjectedCashFlow['kind'], amount: number): ProjectedCashFlow => ({
+  date,
+  month: date.slice(0, 7),
+  investmentId: inv.id,
+  broker: inv.broker,
+  bank: inv.bank,
+  conglomerate: inv.conglomerate || inv.bank,
+  title: inv.title,
+  kind,
+  amount,
+});
+
+// Entradas esperadas de um investimento: cupons (líquidos do IR da faixa na data) e o vencimento
+export const getInvestmentCashFlows = (inv: Investment, marketRates: MarketRates): ProjectedCashFlow[] => {
+  const dueDate = toISODate(toUTCDate(inv.dueDate));
+
+  if (!paysCoupons(inv.title)) {
+    return [toFlow(inv, dueDate, 'maturity', calculateFutureValue(inv, marketRates).net)];
+  }
+
+  const valuation = valueTesouro(getOutstandingInvestment(inv), marketRates);
+  const coupons = valuation.cashFlows
+    .filter(flow => flow.kind === 'coupon')
+    .map(flow => toFlow(inv, flow.date, 'coupon', flow.amount * (1 - resolveIncomeTax(inv, flow.date).rate / 100)));
+  const couponsNet = coupons.reduce((acc, flow) => acc + flow.amount, 0);
+
+  // O vencimento recebe o restante do valor líquido total (principal corrigido, descontados custódia e IR)
+  return [...coupons, toFlow(inv, dueDate, 'maturity', valuation.net - couponsNet)];
+};
+
+// Fluxos da carteira a partir de `from` (padrão: hoje), em ordem cronológica
+export const getPortfolioCashFlows = (
+  investments: Investment[],
+  marketRates: MarketRates,
+  from: string = new Date().toISOString().split('T')[0]
+): ProjectedCashFlow[] => {
+  return investments
+    .flatMap(inv => getInvestmentCashFlows(inv, marketRates))
+    .filter(flow => flow.date >= from)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
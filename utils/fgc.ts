@@ -0,0 +1,194 @@
+import { FgcGuaranteeEvent, Investment, InvestmentTitle, InvestmentType, MarketRates } from '../types';
+import { calculateCurrentValue } from './calculations';
+import { getHolderShares } from './holders';
+import { addYears } from './holidays';
+
+// Limites do FGC (Resolução CMN 4.222/2013)
+export const FGC_INSTITUTION_LIMIT = 250000;
+export const FGC_GLOBAL_LIMIT = 1000000;
+export const FGC_GLOBAL_WINDOW_YEARS = 4;
+
+export interface FgcEligibility {
+  covered: boolean;
+  reason: string;
+}
+
+const COVERED: FgcEligibility = { covered: true, reason: 'Depósito/título bancário garantido pelo FGC' };
+
+// Registro de elegibilidade ao FGC por título (chave em maiúsculas)
+export const FGC_ELIGIBILITY: Record<string, FgcEligibility> = {
+  [InvestmentTitle.CDB]: COVERED,
+  [InvestmentTitle.LCI]: COVERED,
+  [InvestmentTitle.LCA]: COVERED,
+  LC: COVERED,
+  RDB: COVERED,
+  [InvestmentTitle.LTN]: { covered: false, reason: 'Título público federal (risco soberano, sem FGC)' },
+  [InvestmentTitle.NTNB]: { covered: false, reason: 'Título público federal (risco soberano, sem FGC)' },
+  CRI: { covered: false, reason: 'Certificado de recebíveis (securitização, sem FGC)' },
+  CRA: { covered: false, reason: 'Certificado de recebíveis (securitização, sem FGC)' },
+  DEBÊNTURE: { covered: false, reason: 'Dívida corporativa (sem FGC)' },
+};
+
+export const getFgcEligibility = (title?: string): FgcEligibility => {
+  const key = (title || '').trim().toUpperCase();
+  if (FGC_ELIGIBILITY[key]) return FGC_ELIGIBILITY[key];
+  if (key.startsWith('TESOURO')) return FGC_ELIGIBILITY[InvestmentTitle.LTN];
+  if (key.startsWith('DEBENTURE') || key.startsWith('DEBÊNTURE')) return FGC_ELIGIBILITY['DEBÊNTURE'];
+  return { covered: false, reason: 'Título não cadastrado no registro de elegibilidade do FGC' };
+};
+
+export const isFgcCovered = (investment: Pick<Investment, 'title'>): boolean => getFgcEligibility(investment.title).covered;
+
+// Usa o conglomerado se houver, senão usa o próprio banco
+export const getFgcInstitution = (investment: Pick<Investment, 'conglomerate' | 'bank'>): string => {
+  return (investment.conglomerate && investment.conglomerate.trim() !== '')
+    ? investment.conglomerate.trim().toUpperCase()
+    : investment.bank.trim().toUpperCase();
+};
+
+export interface FgcHolderExposure {
+  holderId: string;
+  institutions: [string, number][]; // Conglomerado e valor futuro bruto, do maior para o menor
+  total: number;
+}
+
+// O limite por conglomerado vale para cada CPF; contas conjuntas entram pela participação de cada titular
+export const getFgcExposureByHolder = (investments: Investment[]): FgcHolderExposure[] => {
+  const byHolder: Record<string, Record<string, number>> = {};
+  investments.filter(isFgcCovered).forEach(inv => {
+    const institution = getFgcInstitution(inv);
+    getHolderShares(inv).forEach(({ holderId, percentage }) => {
+      byHolder[holderId] = byHolder[holderId] || {};
+      byHolder[holderId][institution] = (byHolder[holderId][institution] || 0) + (inv.futureValue || 0) * percentage / 100;
+    });
+  });
+
+  return Object.entries(byHolder).map(([holderId, banks]) => {
+    const institutions = Object.entries(banks).sort((a, b) => b[1] - a[1]);
+    return { holderId, institutions, total: institutions.reduce((acc, [, value]) => acc + value, 0) };
+  });
+};
+
+export interface FgcGlobalCoverage {
+  used: number;                  // Garantias pagas dentro da janela
+  remaining: number;             // Cobertura global ainda disponível
+  resetDate: string | null;      // Quando o pagamento mais antigo da janela deixa de contar
+  eventsInWindow: FgcGuaranteeEvent[];
+}
+
+// Limite global de R$ 1 milhão por CPF em garantias pagas dentro de 4 anos corridos
+export const getGlobalCoverage = (
+  events: FgcGuaranteeEvent[],
+  asOf: string = new Date().toISOString().split('T')[0]
+): FgcGlobalCoverage => {
+  const eventsInWindow = events
+    .filter(e => e.eventDate <= asOf && addYears(e.eventDate, FGC_GLOBAL_WINDOW_YEARS) > asOf)
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate));
+
+  const used = eventsInWindow.reduce((acc, e) => acc + e.amountPaid, 0);
+
+  return {
+    used,
+    remaining: Math.max(0, FGC_GLOBAL_LIMIT - used),
+    resetDate: eventsInWindow.length > 0 ? addYears(eventsInWindow[0].eventDate, FGC_GLOBAL_WINDOW_YEARS) : null,
+    eventsInWindow,
+  };
+};
+
+// Nova aplicação avaliada pelo assistente de alocação
+export interface FgcAllocationRequest {
+  amount: number;
+  dueDate: string; // ISO Date - Vencimento pretendido
+  title: string;
+  type: InvestmentType;
+  interestRate: number;
+}
+
+export interface FgcInstitutionRoom {
+  institution: string;
+  peakExposure: number; // Exposição atual projetada no momento mais apertado do prazo (sem a nova aplicação)
+  peakDate: string;
+  capacity: number;     // Maior valor aplicável hoje sem ultrapassar o limite até o vencimento
+  fits: boolean;        // Comporta a aplicação inteira
+}
+
+export interface FgcAllocationSlice {
+  institution: string | null; // null = conglomerado ainda sem posições na carteira
+  amount: number;
+}
+
+export interface FgcAllocationPlan {
+  institutions: FgcInstitutionRoom[];
+  newInstitutionCapacity: number; // Máximo por conglomerado novo
+  split: FgcAllocationSlice[];
+}
+
+/**
+ * Projeta a exposição de cada conglomerado (mesmo agrupamento do Monitor FGC) durante o prazo da nova aplicação.
+ * Como os saldos só crescem até o vencimento, o pico ocorre na véspera de algum vencimento ou no vencimento da nova aplicação.
+ */
+export const planFgcAllocation = (
+  investments: Investment[],
+  marketRates: MarketRates,
+  request: FgcAllocationRequest,
+  asOf: string = new Date().toISOString().split('T')[0]
+): FgcAllocationPlan => {
+  const target = request.dueDate.split('T')[0];
+  // Fator de crescimento bruto de R$ 1 aplicado hoje
+  // (sem taxa ou com prazo degenerado o cálculo devolve 0: considera o valor parado para não dividir por zero)
+  const growthAt = (date: string) => {
+    const growth = calculateCurrentValue({ ...request, amount: 1, quantity: 1, startDate: asOf }, marketRates, date).gross;
+    return growth > 0 ? growth : 1;
+  };
+  const newInstitutionCapacity = FGC_INSTITUTION_LIMIT / growthAt(target);
+
+  const byInstitution: Record<string, Investment[]> = {};
+  investments
+    .filter(inv => isFgcCovered(inv) && inv.dueDate.split('T')[0] > asOf)
+    .forEach(inv => {
+      const institution = getFgcInstitution(inv);
+      byInstitution[institution] = byInstitution[institution] || [];
+      byInstitution[institution].push(inv);
+    });
+
+  const institutions = Object.entries(byInstitution).map(([institution, positions]) => {
+    const checkpoints = [...new Set([
+      ...positions.map(inv => inv.dueDate.split('T')[0]).filter(date => date <= target),
+      target,
+    ])];
+
+    let peakExposure = 0;
+    let peakDate = target;
+    let capacity = Infinity;
+    checkpoints.forEach(date => {
+      const exposure = positions
+        .filter(inv => inv.dueDate.split('T')[0] >= date)
+        .reduce((acc, inv) => acc + calculateCurrentValue(inv, marketRates, date).gross, 0);
+      const room = Math.max(0, (FGC_INSTITUTION_LIMIT - exposure) / growthAt(date));
+      if (room < capacity) {
+        capacity = room;
+        peakExposure = exposure;
+        peakDate = date;
+      }
+    });
+
+    return { institution, peakExposure, peakDate, capacity, fits: capacity >= request.amount };
+  }).sort((a, b) => b.capacity - a.capacity);
+
+  // Preenche primeiro os conglomerados com mais folga; o restante vai para conglomerados novos
+  const split: FgcAllocationSlice[] = [];
+  let remaining = request.amount;
+  for (const room of institutions) {
+    if (remaining <= 0 || room.capacity < 1) break;
+    const amount = Math.min(remaining, Math.floor(room.capacity));
+    split.push({ institution: room.institution, amount });
+    remaining -= amount;
+  }
+  while (remaining > 0 && newInstitutionCapacity >= 1) {
+    const amount = Math.min(remaining, Math.floor(newInstitutionCapacity));
+    split.push({ institution: null, amount });
+    remaining -= amount;
+  }
+
+  return { institutions, newInstitutionCapacity, split };
+};
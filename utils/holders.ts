@@ -0,0 +1,80 @@
+import { Holder, HolderShare, Investment } from '../types';
+
+// Aplicações sem titular atribuído formam um grupo próprio
+export const UNASSIGNED_HOLDER = '';
+export const ALL_HOLDERS = 'all';
+
+export const getHolderShares = (investment: Pick<Investment, 'holders'>): HolderShare[] => {
+  return investment.holders && investment.holders.length > 0
+    ? investment.holders
+    : [{ holderId: UNASSIGNED_HOLDER, percentage: 100 }];
+};
+
+export const isJointInvestment = (investment: Pick<Investment, 'holders'>): boolean => getHolderShares(investment).length > 1;
+
+// Fração (0 a 1) da aplicação que pertence ao titular
+export const getHolderFraction = (investment: Pick<Investment, 'holders'>, holderId: string): number => {
+  if (holderId === ALL_HOLDERS) return 1;
+  const share = getHolderShares(investment).find(s => s.holderId === holderId);
+  return share ? share.percentage / 100 : 0;
+};
+
+// Parte do titular com valores proporcionais (os cálculos de rendimento são lineares no valor aplicado)
+export const getHolderPortion = (investment: Investment, holderId: string): Investment => {
+  const fraction = getHolderFraction(investment, holderId);
+  if (fraction === 1) return investment;
+  return {
+    ...investment,
+    amount: investment.amount * fraction,
+    quantity: investment.quantity * fraction,
+    futureValue: investment.futureValue * fraction,
+    netFutureValue: investment.netFutureValue * fraction,
+    partialRedemptions: investment.partialRedemptions?.map(r => ({
+      ...r,
+      grossAmount: r.grossAmount * fraction,
+      principalAmount: r.principalAmount * fraction,
+      netAmount: r.netAmount !== undefined ? r.netAmount * fraction : undefined,
+    })),
+    redemption: investment.redemption && {
+      ...investment.redemption,
+      netAmount: investment.redemption.netAmount * fraction,
+    },
+  };
+};
+
+export const getHolderPortfolio = (investments: Investment[], holderId: string): Investment[] => {
+  if (holderId === ALL_HOLDERS) return investments;
+  return investments
+    .filter(inv => getHolderFraction(inv, holderId) > 0)
+    .map(inv => getHolderPortion(inv, holderId));
+};
+
+// Divide a aplicação em partes iguais (regra do FGC para contas conjuntas), com o resto de arredondamento no primeiro
+export const splitEvenly = (holderIds: string[]): HolderShare[] => {
+  if (holderIds.length === 0) return [];
+  const base = Math.floor(10000 / holderIds.length) / 100;
+  return holderIds.map((holderId, index) => ({
+    holderId,
+    percentage: index === 0 ? Math.round((100 - base * (holderIds.length - 1)) * 100) / 100 : base,
+  }));
+};
+
+export const validateHolderShares = (shares: HolderShare[]): string | null => {
+  if (shares.length === 0) return null;
+  if (shares.some(s => !(s.percentage > 0))) return 'Cada titular precisa de um percentual maior que zero';
+  const total = shares.reduce((acc, s) => acc + s.percentage, 0);
+  if (Math.abs(total - 100) > 0.01) return `Os percentuais somam ${total.toFixed(2)}%, e não 100%`;
+  return null;
+};
+
+export const getHolderName = (holders: Holder[], holderId: string): string => {
+  if (holderId === UNASSIGNED_HOLDER) return 'Sem titular';
+  return holders.find(h => h.id === holderId)?.name || 'Titular removido';
+};
+
+// "Ana" ou "Ana 50% · Bruno 50%"
+export const describeHolders = (holders: Holder[], investment: Pick<Investment, 'holders'>): string => {
+  const shares = getHolderShares(investment);
+  if (shares.length === 1) return getHolderName(holders, shares[0].holderId);
+  return shares.map(s => `${getHolderName(holders, s.holderId)} ${s.percentage}%`).join(' · ');
+};
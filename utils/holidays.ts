@@ -0,0 +1,160 @@
+export interface Holiday {
+  date: string; // ISO Date (YYYY-MM-DD)
+  name: string;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Cache dos feriados por ano (o cálculo da Páscoa é repetido muitas vezes na contagem de dias úteis)
+const holidayCache = new Map<number, Set<string>>();
+
+// Converte uma data ISO (ou Date) para meia-noite UTC, ignorando fuso horário
+export const toUTCDate = (value: string | Date): Date => {
+  if (value instanceof Date) {
+    return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+  }
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const toISODate = (date: Date): string => date.toISOString().split('T')[0];
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * MS_PER_DAY);
+
+export const addYears = (date: string, years: number): string => {
+  const day = toUTCDate(date);
+  return toISODate(new Date(Date.UTC(day.getUTCFullYear() + years, day.getUTCMonth(), day.getUTCDate())));
+};
+
+// Domingo de Páscoa pelo algoritmo de Meeus/Jones/Butcher (calendário gregoriano)
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Feriados nacionais do calendário ANBIMA (fixos e móveis)
+export const getNationalHolidays = (year: number): Holiday[] => {
+  const easter = getEasterSunday(year);
+  const fixed = (month: number, day: number) => toISODate(new Date(Date.UTC(year, month - 1, day)));
+
+  const holidays: Holiday[] = [
+    { date: fixed(1, 1), name: 'Confraternização Universal' },
+    { date: toISODate(addDays(easter, -48)), name: 'Carnaval' },
+    { date: toISODate(addDays(easter, -47)), name: 'Carnaval' },
+    { date: toISODate(addDays(easter, -2)), name: 'Paixão de Cristo' },
+    { date: fixed(4, 21), name: 'Tiradentes' },
+    { date: fixed(5, 1), name: 'Dia do Trabalho' },
+    { date: toISODate(addDays(easter, 60)), name: 'Corpus Christi' },
+    { date: fixed(9, 7), name: 'Independência do Brasil' },
+    { date: fixed(10, 12), name: 'Nossa Senhora Aparecida' },
+    { date: fixed(11, 2), name: 'Finados' },
+    { date: fixed(11, 15), name: 'Proclamação da República' },
+    { date: fixed(12, 25), name: 'Natal' },
+  ];
+
+  // Dia da Consciência Negra passou a ser feriado nacional pela Lei 14.759/2023
+  if (year >= 2024) {
+    holidays.push({ date: fixed(11, 20), name: 'Dia Nacional de Zumbi e da Consciência Negra' });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const getHolidaySet = (year: number): Set<string> => {
+  let set = holidayCache.get(year);
+  if (!set) {
+    set = new Set(getNationalHolidays(year).map(h => h.date));
+    holidayCache.set(year, set);
+  }
+  return set;
+};
+
+export const isHoliday = (date: string | Date): boolean => {
+  const day = toUTCDate(date);
+  return getHolidaySet(day.getUTCFullYear()).has(toISODate(day));
+};
+
+export const isBusinessDay = (date: string | Date): boolean => {
+  const day = toUTCDate(date);
+  const weekDay = day.getUTCDay();
+  return weekDay !== 0 && weekDay !== 6 && !isHoliday(day);
+};
+
+// Dia da semana de um número de dias desde 01/01/1970 (uma quinta-feira)
+const weekDayOf = (dayNumber: number): number => (((dayNumber + 4) % 7) + 7) % 7;
+
+const toDayNumber = (date: Date): number => Math.round(date.getTime() / MS_PER_DAY);
+
+// Feriados que caem de segunda a sexta, em ordem, como números de dia (os de fim de semana já não contam)
+const weekdayHolidayCache = new Map<number, number[]>();
+
+const getWeekdayHolidays = (year: number): number[] => {
+  let days = weekdayHolidayCache.get(year);
+  if (!days) {
+    days = [...getHolidaySet(year)]
+      .map(date => toDayNumber(toUTCDate(date)))
+      .filter(day => weekDayOf(day) !== 0 && weekDayOf(day) !== 6)
+      .sort((a, b) => a - b);
+    weekdayHolidayCache.set(year, days);
+  }
+  return days;
+};
+
+// Quantos itens da lista ordenada são menores que `value` (busca binária)
+const countBelow = (sorted: number[], value: number): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Dias de segunda a sexta antes do dia `dayNumber`: semanas inteiras mais o resto da última
+const countWeekdaysBefore = (dayNumber: number): number => {
+  const weeks = Math.floor(dayNumber / 7);
+  let count = weeks * 5;
+  for (let day = weeks * 7; day < dayNumber; day++) {
+    if (weekDayOf(day) !== 0 && weekDayOf(day) !== 6) count++;
+  }
+  return count;
+};
+
+// Dias úteis entre duas datas: inclui a data inicial e exclui a final (convenção DU/252)
+export const countBusinessDays = (start: string | Date, end: string | Date): number => {
+  const from = toUTCDate(start);
+  const to = toUTCDate(end);
+  if (to <= from) return 0;
+
+  const fromDay = toDayNumber(from);
+  const toDay = toDayNumber(to);
+  const lastYear = addDays(to, -1).getUTCFullYear();
+
+  let holidays = 0;
+  for (let year = from.getUTCFullYear(); year <= lastYear; year++) {
+    const days = getWeekdayHolidays(year);
+    holidays += countBelow(days, toDay) - countBelow(days, fromDay);
+  }
+  return countWeekdaysBefore(toDay) - countWeekdaysBefore(fromDay) - holidays;
+};
+
+// Dias corridos entre duas datas (convenção DC/365)
+export const countCalendarDays = (start: string | Date, end: string | Date): number => {
+  const diff = toUTCDate(end).getTime() - toUTCDate(start).getTime();
+  return Math.max(0, Math.round(diff / MS_PER_DAY));
+};
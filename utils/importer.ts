@@ -0,0 +1,219 @@
+import * as XLSX from 'xlsx';
+import { Investment, InvestmentTitle, InvestmentType, MarketRates } from '../types';
+import { calculateFutureValue } from './calculations';
+import { resolveIncomeTax } from './taxes';
+
+export type ImportField =
+  | 'broker' | 'conglomerate' | 'bank' | 'title' | 'type'
+  | 'amount' | 'quantity' | 'unitPrice' | 'interestRate' | 'startDate' | 'dueDate';
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  aliases: string[]; // Cabeçalhos conhecidos (normalizados) de corretoras e da exportação do app
+}
+
+export interface ImportRow {
+  line: number; // Linha na planilha (1-based)
+  investment: Investment | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'broker', label: 'Corretora', required: true, aliases: ['corretora', 'custodiante', 'instituicao custodiante', 'broker'] },
+  { field: 'conglomerate', label: 'Conglomerado', required: false, aliases: ['conglomerado', 'grupo economico'] },
+  { field: 'bank', label: 'Banco Emissor', required: true, aliases: ['banco emissor', 'emissor', 'instituicao emissora', 'banco'] },
+  { field: 'title', label: 'Título', required: true, aliases: ['titulo', 'produto', 'ativo', 'tipo de ativo'] },
+  { field: 'type', label: 'Rentabilidade', required: false, aliases: ['rentabilidade', 'indexador', 'indice'] },
+  { field: 'amount', label: 'Valor Aplicado', required: true, aliases: ['valor aplicado (r$)', 'valor aplicado', 'valor investido', 'valor inicial', 'aplicado'] },
+  { field: 'quantity', label: 'Quantidade', required: false, aliases: ['quantidade', 'qtd', 'qtde'] },
+  { field: 'unitPrice', label: 'PU de Compra', required: false, aliases: ['pu de compra', 'preco unitario', 'pu'] },
+  { field: 'interestRate', label: 'Taxa de Juros', required: true, aliases: ['taxa de juros (%)', 'taxa de juros', 'taxa contratada', 'taxa'] },
+  { field: 'startDate', label: 'Data de Aplicação', required: true, aliases: ['data de aplicacao', 'data da aplicacao', 'data aplicacao', 'data de compra', 'data da compra'] },
+  { field: 'dueDate', label: 'Vencimento', required: true, aliases: ['vencimento', 'data de vencimento', 'data vencimento'] },
+];
+
+// Cabeçalho da coluna de taxa na exportação do próprio app (taxas gravadas como fração: 1,1 = 110%)
+export const APP_EXPORT_RATE_HEADER = 'Taxa de Juros (%)';
+
+const normalize = (value: unknown): string => {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+};
+
+const isCsvFile = (file: File): boolean => {
+  return file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+};
+
+export const readSpreadsheet = async (file: File): Promise<unknown[][]> => {
+  const buffer = await file.arrayBuffer();
+  // CSV é lido como texto UTF-8 e sem inferência de tipos: o SheetJS interpretaria datas e números
+  // no padrão americano (03/04 como 4 de março, "1.000,50" como 1,0005), então as células seguem
+  // como texto para parseDate/parseNumber
+  const workbook = isCsvFile(file)
+    ? XLSX.read(new TextDecoder('utf-8').decode(buffer).replace(/^\uFEFF/, ''), { type: 'string', raw: true })
+    : XLSX.read(buffer, { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+};
+
+// Relatórios de corretora costumam ter linhas de título antes do cabeçalho
+export const detectHeaderRow = (rows: unknown[][]): number => {
+  const index = rows.slice(0, 20).findIndex(row => row.filter(cell => normalize(cell) !== '').length >= 3);
+  return index === -1 ? 0 : index;
+};
+
+export const guessColumnMapping = (headers: unknown[]): ColumnMapping => {
+  const normalized = headers.map(normalize);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  // Primeiro correspondências exatas, depois parciais, sem repetir colunas
+  [true, false].forEach(exact => {
+    IMPORT_FIELDS.forEach(({ field, aliases }) => {
+      if (mapping[field] !== undefined) return;
+      for (const alias of aliases) {
+        const index = normalized.findIndex((h, i) => !used.has(i) && (exact ? h === alias : h.includes(alias)));
+        if (index !== -1) {
+          mapping[field] = index;
+          used.add(index);
+          return;
+        }
+      }
+    });
+  });
+
+  return mapping;
+};
+
+const parseNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').replace(/[^\d,.-]/g, '');
+  if (!text) return NaN;
+  return parseFloat(text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text);
+};
+
+const parseDate = (value: unknown): string | null => {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    // SheetJS cria a data no fuso local; usa os componentes locais para não perder um dia
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+  }
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return null;
+    return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+  }
+  const text = String(value ?? '').trim();
+  let match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  return null;
+};
+
+const parseType = (value: unknown): InvestmentType | null => {
+  const text = normalize(value);
+  if (!text) return null;
+  if (text.includes('ipca')) return InvestmentType.IPCA;
+  if (text.includes('cdi') || /\bdi\b/.test(text) || text.includes('pos')) return InvestmentType.CDI;
+  if (text.includes('pre')) return InvestmentType.PREFIXADO;
+  return null;
+};
+
+// Reconhece o título no texto do produto ("CDB BANCO X", "Tesouro IPCA+ 2035"...)
+const parseTitle = (value: unknown): string => {
+  const text = normalize(value);
+  if (text.includes('ntn-b') || text.includes('ntnb') || (text.includes('tesouro') && text.includes('ipca'))) return InvestmentTitle.NTNB;
+  if (text.includes('ltn') || (text.includes('tesouro') && text.includes('prefixado'))) return InvestmentTitle.LTN;
+  const known = Object.values(InvestmentTitle).find(t => new RegExp(`\\b${t.toLowerCase()}\\b`).test(text));
+  return known || String(value ?? '').trim().toUpperCase();
+};
+
+export const getDuplicateKey = (inv: Pick<Investment, 'bank' | 'amount' | 'startDate' | 'dueDate'>): string => {
+  return [normalize(inv.bank), inv.amount.toFixed(2), inv.startDate.slice(0, 10), inv.dueDate.slice(0, 10)].join('|');
+};
+
+export interface ParseOptions {
+  mapping: ColumnMapping;
+  defaultBroker: string;
+  ratesAsFraction: boolean; // Taxas gravadas como fração (0,12 = 12%)
+  marketRates: MarketRates;
+  existing: Investment[];
+}
+
+// Converte e valida as linhas de dados; duplicatas são comparadas com a carteira e com o próprio arquivo
+export const parseImportRows = (rows: unknown[][], firstLine: number, options: ParseOptions): ImportRow[] => {
+  const { mapping, defaultBroker, ratesAsFraction, marketRates, existing } = options;
+  const seen = new Set(existing.map(getDuplicateKey));
+  const cell = (row: unknown[], field: ImportField) => mapping[field] !== undefined ? row[mapping[field]!] : '';
+
+  return rows
+    .map((row, index) => ({ row, line: firstLine + index + 1 }))
+    .filter(({ row }) => row.some(c => normalize(c) !== ''))
+    .map(({ row, line }) => {
+      const errors: string[] = [];
+
+      const broker = String(cell(row, 'broker') || defaultBroker).trim();
+      const bank = String(cell(row, 'bank')).trim();
+      const title = parseTitle(cell(row, 'title'));
+      const rateCell = cell(row, 'interestRate');
+      const type = parseType(cell(row, 'type')) || parseType(rateCell)
+        || (title === InvestmentTitle.LTN ? InvestmentType.PREFIXADO : title === InvestmentTitle.NTNB ? InvestmentType.IPCA : null);
+      const amount = parseNumber(cell(row, 'amount'));
+      const quantity = parseNumber(cell(row, 'quantity'));
+      const unitPrice = parseNumber(cell(row, 'unitPrice'));
+      let interestRate = parseNumber(rateCell);
+      if (ratesAsFraction && typeof rateCell === 'number') interestRate *= 100;
+      const startDate = parseDate(cell(row, 'startDate'));
+      const dueDate = parseDate(cell(row, 'dueDate'));
+
+      if (!broker) errors.push('Corretora não informada');
+      if (!bank) errors.push('Banco emissor não informado');
+      if (!title) errors.push('Título não informado');
+      if (!type) errors.push('Rentabilidade (CDI, IPCA+ ou Prefixado) não reconhecida');
+      if (isNaN(amount) || amount <= 0) errors.push('Valor aplicado inválido');
+      if (isNaN(interestRate) || interestRate <= 0) errors.push('Taxa de juros inválida');
+      if (!startDate) errors.push('Data de aplicação inválida');
+      if (!dueDate) errors.push('Vencimento inválido');
+      if (startDate && dueDate && dueDate <= startDate) errors.push('Vencimento anterior à aplicação');
+
+      if (errors.length > 0) return { line, investment: null, errors, duplicate: false };
+
+      const base: Partial<Investment> = {
+        broker,
+        conglomerate: String(cell(row, 'conglomerate')).trim(),
+        bank,
+        title,
+        type: type!,
+        amount,
+        quantity: !isNaN(quantity) && quantity > 0 ? quantity : 1,
+        unitPrice: !isNaN(unitPrice) && unitPrice > 0 ? unitPrice : undefined,
+        interestRate,
+        startDate: startDate!,
+        dueDate: dueDate!,
+        manualIncomeTax: false,
+      };
+      const { gross, net } = calculateFutureValue(base, marketRates);
+      const investment: Investment = {
+        ...(base as Investment),
+        id: crypto.randomUUID(),
+        incomeTax: resolveIncomeTax(base).rate,
+        futureValue: gross,
+        netFutureValue: net,
+        createdAt: Date.now(),
+      };
+
+      const key = getDuplicateKey(investment);
+      const duplicate = seen.has(key);
+      seen.add(key);
+
+      return { line, investment, errors, duplicate };
+    });
+};
@@ -0,0 +1,66 @@
+import { Investment, InvestmentRedemption, InvestmentStatus } from '../types';
+import { getRemainingPrincipal } from './liquidity';
+
+export const INVESTMENT_STATUS_LABELS: Record<InvestmentStatus, string> = {
+  active: 'Ativa',
+  matured: 'Vencida',
+  redeemed_early: 'Resgatada antecipadamente',
+  fgc_claim: 'Em garantia do FGC',
+};
+
+// Ativa com vencimento já passado conta como vencida, mesmo antes de o valor recebido ser registrado
+export const getInvestmentStatus = (
+  investment: Pick<Investment, 'status' | 'dueDate'>,
+  today: string = new Date().toISOString().split('T')[0]
+): InvestmentStatus => {
+  const status = investment.status || 'active';
+  if (status === 'active' && investment.dueDate.split('T')[0] < today) return 'matured';
+  return status;
+};
+
+// Posições em aberto: as únicas que entram nos totais, projeções e exposição ao FGC
+export const isOpenPosition = (investment: Pick<Investment, 'status' | 'dueDate'>): boolean => getInvestmentStatus(investment) === 'active';
+
+// Vencida sem o valor recebido registrado
+export const isAwaitingRedemption = (investment: Investment): boolean => {
+  return getInvestmentStatus(investment) === 'matured' && !investment.redemption;
+};
+
+// Situação sugerida para um resgate na data informada
+export const getRedemptionStatus = (investment: Investment, date: string): 'matured' | 'redeemed_early' => {
+  return date >= investment.dueDate.split('T')[0] ? 'matured' : 'redeemed_early';
+};
+
+// Encerra a posição; em garantia do FGC o resgate pode ficar em aberto até o pagamento
+export const closeInvestment = (
+  investment: Investment,
+  status: Exclude<InvestmentStatus, 'active'>,
+  redemption?: InvestmentRedemption
+): Investment => ({ ...investment, status, redemption });
+
+export const reopenInvestment = (investment: Investment): Investment => ({
+  ...investment,
+  status: 'active',
+  redemption: undefined,
+});
+
+// Resgates parciais sem valor líquido informado contam pelo bruto
+const getPartialReceived = (investment: Investment): number => {
+  return (investment.partialRedemptions || []).reduce((acc, r) => acc + (r.netAmount ?? r.grossAmount), 0);
+};
+
+// Tudo o que já foi creditado: resgates parciais mais o encerramento
+export const getTotalReceived = (investment: Investment): number => {
+  return getPartialReceived(investment) + (investment.redemption?.netAmount || 0);
+};
+
+// Na lixeira: não entra em nenhum cálculo, só na tela da lixeira
+export const isInTrash = (investment: Investment): boolean => !!investment.deletedAt;
+
+// Ganho efetivo: valores recebidos menos o principal que eles consumiram (o saldo em aberto não entra)
+export const getRealizedGain = (investment: Investment): number => {
+  const partialPrincipal = investment.amount - getRemainingPrincipal(investment);
+  const partialGain = getPartialReceived(investment) - partialPrincipal;
+  if (!investment.redemption) return partialGain;
+  return partialGain + investment.redemption.netAmount - getRemainingPrincipal(investment);
+};
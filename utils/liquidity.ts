@@ -0,0 +1,78 @@
+import { Investment, Liquidity, LiquidityType, PartialRedemption } from '../types';
+
+export const LIQUIDITY_LABELS: Record<LiquidityType, string> = {
+  daily: 'Diária',
+  at_maturity: 'No vencimento',
+  grace_period: 'Após carência',
+};
+
+export const getLiquidity = (investment: Pick<Investment, 'liquidity'>): Liquidity => investment.liquidity || { type: 'at_maturity' };
+
+export const describeLiquidity = (investment: Pick<Investment, 'liquidity'>): string => {
+  const liquidity = getLiquidity(investment);
+  if (liquidity.type === 'grace_period' && liquidity.availableFrom) {
+    const [year, month, day] = liquidity.availableFrom.split('T')[0].split('-');
+    return `${LIQUIDITY_LABELS.grace_period} (${day}/${month}/${year})`;
+  }
+  return LIQUIDITY_LABELS[liquidity.type];
+};
+
+// Permite resgate parcial em `date` antes do vencimento?
+export const canRedeemOn = (investment: Pick<Investment, 'liquidity' | 'dueDate'>, date: string): boolean => {
+  if (date >= investment.dueDate.split('T')[0]) return true;
+  const liquidity = getLiquidity(investment);
+  if (liquidity.type === 'daily') return true;
+  if (liquidity.type === 'grace_period') return !!liquidity.availableFrom && date >= liquidity.availableFrom.split('T')[0];
+  return false;
+};
+
+// Resgates em ordem cronológica: os mais antigos consomem o principal primeiro
+export const sortRedemptions = (redemptions: PartialRedemption[] = []): PartialRedemption[] => {
+  return [...redemptions].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Principal ainda aplicado em `asOf` (padrão: depois de todos os resgates)
+export const getRemainingPrincipal = (investment: Partial<Investment>, asOf?: string): number => {
+  const redeemed = sortRedemptions(investment.partialRedemptions)
+    .filter(r => !asOf || r.date <= asOf)
+    .reduce((acc, r) => acc + r.principalAmount, 0);
+  return Math.max(0, (investment.amount || 0) - redeemed);
+};
+
+// Principal consumido por um resgate: a mesma fração da posição bruta na data, de modo que o rendimento
+// acumulado fica na parte que continua aplicada (valor antes = resgate + valor depois)
+export const getRedemptionPrincipal = (principalAtDate: number, grossAmount: number, positionGross: number): number => {
+  if (positionGross <= 0) return 0;
+  return principalAtDate * Math.min(1, grossAmount / positionGross);
+};
+
+// Posição restante em `asOf`: os cálculos de rendimento são lineares no principal, então valor aplicado
+// e quantidade de títulos encolhem na mesma proporção; os resgates já aplicados saem da lista
+export const getOutstandingInvestment = <T extends Partial<Investment>>(investment: T, asOf?: string): T => {
+  if (!investment.partialRedemptions || investment.partialRedemptions.length === 0) return investment;
+
+  const amount = investment.amount || 0;
+  const remaining = getRemainingPrincipal(investment, asOf);
+  const fraction = amount > 0 ? remaining / amount : 0;
+  return {
+    ...investment,
+    amount: remaining,
+    quantity: investment.quantity !== undefined ? investment.quantity * fraction : undefined,
+    partialRedemptions: [],
+  };
+};
+
+// Valida um novo resgate contra a liquidez e o saldo restante na data; devolve a mensagem de erro ou null
+export const validatePartialRedemption = (investment: Investment, redemption: Omit<PartialRedemption, 'id'>): string | null => {
+  if (redemption.date < investment.startDate.split('T')[0]) return 'A data do resgate é anterior à aplicação.';
+  if (!canRedeemOn(investment, redemption.date)) {
+    return `Liquidez ${describeLiquidity(investment).toLowerCase()}: resgate não permitido nesta data.`;
+  }
+  if (redemption.grossAmount <= 0 || redemption.principalAmount <= 0) return 'Informe o valor do resgate.';
+
+  // Somados, os resgates não podem consumir mais principal do que o aplicado
+  const after = [...(investment.partialRedemptions || []), { ...redemption, id: '' }];
+  const total = after.reduce((acc, r) => acc + r.principalAmount, 0);
+  if (total > investment.amount + 0.005) return 'O valor excede o saldo restante da aplicação.';
+  return null;
+};
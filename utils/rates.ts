@@ -0,0 +1,163 @@
+import { MarketRates, RateCurveVertex, RateHistoryEntry } from '../types';
+import { countBusinessDays, toISODate, toUTCDate } from './holidays';
+
+// Trecho do período em que CDI e IPCA (anuais, %) são constantes
+export interface RateSegment {
+  from: string; // ISO Date (inclusive)
+  to: string;   // ISO Date (exclusive)
+  cdi: number;
+  ipca: number;
+  realized: boolean; // true = taxa da série histórica, false = projeção
+}
+
+// Taxas usadas quando ainda não há nenhuma gravada
+export const DEFAULT_MARKET_RATES: MarketRates = { cdi: 11.25, ipca: 4.5 };
+
+const todayISO = () => toISODate(toUTCDate(new Date()));
+
+// Taxa vigente em `date`: última entrada (série ou curva, ordenada) com data de vigência <= date
+export const getRateAt = <T extends RateCurveVertex>(entries: T[], date: string): T | null => {
+  let current: T | null = null;
+  for (const entry of entries) {
+    if (entry.effectiveDate > date) break;
+    current = entry;
+  }
+  return current;
+};
+
+const byEffectiveDate = <T extends RateCurveVertex>(entries?: T[]): T[] => {
+  return [...(entries || [])].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+};
+
+/**
+ * Divide [start, end) em trechos de taxa constante.
+ * O passado (até hoje) usa a série histórica; o futuro usa a curva a termo ou, sem ela, a projeção plana.
+ */
+export const getRateSegments = (
+  start: string | Date,
+  end: string | Date,
+  marketRates: MarketRates,
+  today: string = todayISO()
+): RateSegment[] => {
+  const from = toISODate(toUTCDate(start));
+  const to = toISODate(toUTCDate(end));
+  if (to <= from) return [];
+
+  const history = byEffectiveDate(marketRates.history);
+  const curve = byEffectiveDate(marketRates.curve);
+  const segments: RateSegment[] = [];
+  const realizedEnd = to < today ? to : today;
+
+  if (history.length > 0 && from < realizedEnd) {
+    const boundaries = [
+      from,
+      ...history.map(e => e.effectiveDate).filter(d => d > from && d < realizedEnd),
+      realizedEnd,
+    ];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const rate = getRateAt(history, boundaries[i]);
+      segments.push({
+        from: boundaries[i],
+        to: boundaries[i + 1],
+        cdi: rate ? rate.cdi : marketRates.cdi,
+        ipca: rate ? rate.ipca : marketRates.ipca,
+        realized: !!rate,
+      });
+    }
+  }
+
+  const projectionStart = segments.length > 0 ? realizedEnd : from;
+  if (projectionStart < to) {
+    const boundaries = [
+      projectionStart,
+      ...curve.map(v => v.effectiveDate).filter(d => d > projectionStart && d < to),
+      to,
+    ];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const vertex = getRateAt(curve, boundaries[i]);
+      segments.push({
+        from: boundaries[i],
+        to: boundaries[i + 1],
+        cdi: vertex ? vertex.cdi : marketRates.cdi,
+        ipca: vertex ? vertex.ipca : marketRates.ipca,
+        realized: false,
+      });
+    }
+  }
+
+  return segments;
+};
+
+// Fator acumulado do IPCA entre duas datas (DU/252), com realizado + projeção
+export const getIpcaFactor = (start: string | Date, end: string | Date, marketRates: MarketRates): number => {
+  return getRateSegments(start, end, marketRates).reduce(
+    (acc, seg) => acc * Math.pow(1 + seg.ipca / 100, countBusinessDays(seg.from, seg.to) / 252),
+    1
+  );
+};
+
+// Substitui entradas com a mesma data de vigência e mantém a série ordenada
+export const mergeRateHistory = (history: RateHistoryEntry[], updates: RateHistoryEntry[]): RateHistoryEntry[] => {
+  const byDate = new Map(history.map(e => [e.effectiveDate, e]));
+  updates.forEach(e => byDate.set(e.effectiveDate, e));
+  return [...byDate.values()].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+};
+
+// Converte uma taxa mensal (%) em anual equivalente (%)
+export const monthlyToAnnualRate = (monthly: number): number => (Math.pow(1 + monthly / 100, 12) - 1) * 100;
+
+export interface ParsedRateHistory {
+  entries: Omit<RateHistoryEntry, 'id'>[];
+  errors: string[];
+}
+
+// Aceita decimal com vírgula ("10,65") ou ponto ("10.65")
+const parseNumber = (value: string): number => {
+  const text = value.trim().replace('%', '');
+  return parseFloat(text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text);
+};
+
+// Aceita "MM/AAAA", "AAAA-MM" ou "DD/MM/AAAA" e devolve o primeiro dia do mês (ISO)
+const parseMonth = (value: string): string | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (match) return `${match[2]}-${match[1].padStart(2, '0')}-01`;
+  match = text.match(/^(\d{4})-(\d{1,2})(-\d{1,2})?$/);
+  if (match) return `${match[1]}-${match[2].padStart(2, '0')}-01`;
+  match = text.match(/^\d{1,2}\/(\d{1,2})\/(\d{4})$/);
+  if (match) return `${match[2]}-${match[1].padStart(2, '0')}-01`;
+  return null;
+};
+
+/**
+ * Lê linhas coladas de planilha no formato "mês; CDI; IPCA" (separador ; ou tabulação).
+ * Com `monthly`, os valores são taxas mensais (%) e são convertidos para anuais.
+ */
+export const parseRateHistory = (text: string, monthly: boolean): ParsedRateHistory => {
+  const entries: Omit<RateHistoryEntry, 'id'>[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const [month, cdiText, ipcaText] = line.split(/[;\t]/);
+    const effectiveDate = month ? parseMonth(month) : null;
+    const cdi = cdiText !== undefined ? parseNumber(cdiText) : NaN;
+    const ipca = ipcaText !== undefined ? parseNumber(ipcaText) : NaN;
+
+    if (!effectiveDate || isNaN(cdi) || isNaN(ipca)) {
+      // Ignora uma linha de cabeçalho no topo
+      if (index > 0 || /\d/.test(line.split(/[;\t]/)[1] || '')) {
+        errors.push(`Linha ${index + 1}: "${line.trim()}"`);
+      }
+      return;
+    }
+
+    entries.push({
+      effectiveDate,
+      cdi: monthly ? monthlyToAnnualRate(cdi) : cdi,
+      ipca: monthly ? monthlyToAnnualRate(ipca) : ipca,
+    });
+  });
+
+  return { entries, errors };
+};
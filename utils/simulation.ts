@@ -0,0 +1,163 @@
+import { Investment, InvestmentTitle, InvestmentType, MarketRates } from '../types';
+import { calculateCurrentValue, calculateFutureValue } from './calculations';
+import { addYears, toISODate, toUTCDate } from './holidays';
+import { getIpcaFactor } from './rates';
+import { getRemainingPrincipal } from './liquidity';
+import { resolveIncomeTax } from './taxes';
+import { isTesouroTitle } from './tesouro';
+
+export interface ReinvestmentStrategy {
+  id: string;
+  name: string;
+  // same = mesmo título, indexador e taxa do ativo vencido; custom = título definido; cash = não reinvestir
+  mode: 'same' | 'custom' | 'cash';
+  title: string;
+  type: InvestmentType;
+  interestRate: number; // % do CDI ou % a.a., conforme o indexador (só no modo custom)
+  termYears: number;
+}
+
+export interface SimulatedPosition {
+  investmentId: string;
+  label: string;
+  valueAtHorizon: number; // Líquido de IR na data-alvo
+  rollovers: number;
+}
+
+export interface RolloverResult {
+  strategy: ReinvestmentStrategy;
+  totalNet: number;
+  rollovers: number;
+  positions: SimulatedPosition[];
+}
+
+const MAX_ROLLOVERS = 100;
+
+export const DEFAULT_STRATEGIES: ReinvestmentStrategy[] = [
+  { id: 'cash', name: 'Sem reinvestir', mode: 'cash', title: InvestmentTitle.CDB, type: InvestmentType.CDI, interestRate: 100, termYears: 1 },
+  { id: 'same', name: 'Mesmo título e taxa', mode: 'same', title: InvestmentTitle.CDB, type: InvestmentType.CDI, interestRate: 100, termYears: 2 },
+  { id: 'lci', name: 'LCI a 92% do CDI', mode: 'custom', title: InvestmentTitle.LCI, type: InvestmentType.CDI, interestRate: 92, termYears: 1 },
+];
+
+// Novo título aplicado no vencimento do anterior com o valor líquido recebido
+const buildRollover = (previous: Partial<Investment>, amount: number, strategy: ReinvestmentStrategy): Partial<Investment> => {
+  const startDate = toISODate(toUTCDate(previous.dueDate!));
+  const title = strategy.mode === 'same' ? previous.title : strategy.title;
+  const type = strategy.mode === 'same' ? previous.type : strategy.type;
+  // A taxa acompanha o indexador: % do CDI não faz sentido num prefixado ou num IPCA+
+  const interestRate = strategy.mode === 'same' ? previous.interestRate : strategy.interestRate;
+
+  return {
+    // LTN/NTN-B reaplicados são projetados pela taxa do indexador (sem PU de compra conhecido)
+    title: isTesouroTitle(title) ? InvestmentTitle.CDB : title,
+    type,
+    amount,
+    quantity: 1,
+    interestRate,
+    startDate,
+    dueDate: addYears(startDate, strategy.termYears),
+    manualIncomeTax: false,
+  };
+};
+
+// Encadeia calculateFutureValue a cada vencimento até a data-alvo
+export const simulateRollover = (
+  investments: Investment[],
+  marketRates: MarketRates,
+  strategy: ReinvestmentStrategy,
+  horizonDate: string
+): RolloverResult => {
+  let totalRollovers = 0;
+
+  const positions = investments.map(inv => {
+    let current: Partial<Investment> = inv;
+    let rollovers = 0;
+
+    while (current.dueDate && toISODate(toUTCDate(current.dueDate)) < horizonDate && rollovers < MAX_ROLLOVERS) {
+      const { net } = calculateFutureValue(current, marketRates);
+      if (strategy.mode === 'cash' || strategy.termYears <= 0) {
+        return { investmentId: inv.id, label: `${inv.title} ${inv.bank}`, valueAtHorizon: net, rollovers };
+      }
+      current = buildRollover(current, net, strategy);
+      rollovers++;
+    }
+
+    const { net } = calculateCurrentValue(current, marketRates, horizonDate);
+    totalRollovers += rollovers;
+    return { investmentId: inv.id, label: `${inv.title} ${inv.bank}`, valueAtHorizon: net, rollovers };
+  });
+
+  return {
+    strategy,
+    totalNet: positions.reduce((acc, p) => acc + p.valueAtHorizon, 0),
+    rollovers: totalRollovers,
+    positions,
+  };
+};
+
+// Descrição curta da taxa da estratégia (ex.: "105% CDI", "IPCA + 6%")
+export const describeStrategyRate = (strategy: ReinvestmentStrategy): string => {
+  if (strategy.mode === 'cash') return 'Valor fica parado após o vencimento';
+  const term = `${strategy.termYears} ${strategy.termYears === 1 ? 'ano' : 'anos'}`;
+  if (strategy.mode === 'same') return `Mesmo título e taxa · ${term}`;
+  const rate = strategy.type === InvestmentType.CDI
+    ? `${strategy.interestRate}% CDI`
+    : strategy.type === InvestmentType.IPCA ? `IPCA + ${strategy.interestRate}%` : `${strategy.interestRate}% a.a.`;
+  const tax = resolveIncomeTax({ title: strategy.title }).exempt ? ' · isento de IR' : '';
+  return `${strategy.title} · ${rate} · ${term}${tax}`;
+};
+
+// Cenário de taxas avaliado só em memória (não altera as taxas salvas nem os valores gravados)
+export interface RateScenario {
+  id: string;
+  name: string;
+  cdi: number;  // Anual (%) - projeção do cenário
+  ipca: number; // Anual (%) - projeção do cenário
+  useCurve: boolean; // true = mantém a curva a termo salva (cenário base)
+}
+
+export interface ScenarioResult {
+  scenario: RateScenario;
+  totalNet: number;
+  realReturn: number; // % acumulado acima do IPCA do cenário, ponderado pelo valor aplicado
+  byIndexer: Record<string, number>; // Líquido no vencimento por indexador
+}
+
+export const getDefaultScenarios = (marketRates: MarketRates): RateScenario[] => [
+  { id: 'base', name: 'Base', cdi: marketRates.cdi, ipca: marketRates.ipca, useCurve: true },
+  { id: 'selic-9', name: 'Selic a 9%', cdi: 9, ipca: marketRates.ipca, useCurve: false },
+  { id: 'inflation-7', name: 'Inflação a 7%', cdi: marketRates.cdi, ipca: 7, useCurve: false },
+];
+
+// O histórico realizado é mantido; só a projeção futura muda (plana, sem a curva salva)
+export const applyScenario = (marketRates: MarketRates, scenario: RateScenario): MarketRates => {
+  if (scenario.useCurve) return { ...marketRates, cdi: scenario.cdi, ipca: scenario.ipca };
+  return { ...marketRates, cdi: scenario.cdi, ipca: scenario.ipca, curve: undefined };
+};
+
+export const evaluateScenario = (
+  investments: Investment[],
+  marketRates: MarketRates,
+  scenario: RateScenario
+): ScenarioResult => {
+  const rates = applyScenario(marketRates, scenario);
+  const byIndexer: Record<string, number> = {};
+  let totalNet = 0;
+  let invested = 0;
+  let deflated = 0;
+
+  investments.forEach(inv => {
+    const { net } = calculateFutureValue(inv, rates);
+    totalNet += net;
+    invested += getRemainingPrincipal(inv);
+    deflated += net / getIpcaFactor(inv.startDate, inv.dueDate, rates);
+    byIndexer[inv.type] = (byIndexer[inv.type] || 0) + net;
+  });
+
+  return {
+    scenario,
+    totalNet,
+    realReturn: invested > 0 ? (deflated / invested - 1) * 100 : 0,
+    byIndexer,
+  };
+};
@@ -0,0 +1,74 @@
+import { Investment, InvestmentTitle } from '../types';
+import { countCalendarDays } from './holidays';
+
+export interface TaxBracket {
+  maxDays: number; // Prazo máximo (dias corridos) da faixa
+  rate: number;    // Alíquota (%)
+  label: string;
+}
+
+export interface IncomeTaxInfo {
+  rate: number;
+  label: string;
+  exempt: boolean;
+  manual: boolean;
+}
+
+// Tabela regressiva de IR para renda fixa (Lei 11.033/2004)
+export const INCOME_TAX_BRACKETS: TaxBracket[] = [
+  { maxDays: 180, rate: 22.5, label: 'Até 180 dias' },
+  { maxDays: 360, rate: 20, label: 'De 181 a 360 dias' },
+  { maxDays: 720, rate: 17.5, label: 'De 361 a 720 dias' },
+  { maxDays: Infinity, rate: 15, label: 'Acima de 720 dias' },
+];
+
+// Títulos isentos de IR para pessoa física
+export const TAX_EXEMPT_TITLES = new Set<string>([
+  InvestmentTitle.LCI,
+  InvestmentTitle.LCA,
+  'LIG',
+  'CRI',
+  'CRA',
+]);
+
+// Tabela regressiva de IOF: percentual do rendimento retido por dia corrido de aplicação (índice = dia)
+export const IOF_TABLE: number[] = [
+  100, 96, 93, 90, 86, 83, 80, 76, 73, 70,
+  66, 63, 60, 56, 53, 50, 46, 43, 40, 36,
+  33, 30, 26, 23, 20, 16, 13, 10, 6, 3, 0,
+];
+
+// Alíquota de IOF (%) sobre o rendimento para resgates antes de 30 dias
+export const getIofRate = (holdingDays: number): number => {
+  if (holdingDays < 0) return 0;
+  return holdingDays < IOF_TABLE.length ? IOF_TABLE[holdingDays] : 0;
+};
+
+export const isTaxExempt = (title?: string): boolean => {
+  return !!title && TAX_EXEMPT_TITLES.has(title.trim().toUpperCase());
+};
+
+export const getIncomeTaxBracket = (holdingDays: number): TaxBracket => {
+  return INCOME_TAX_BRACKETS.find(b => holdingDays <= b.maxDays) || INCOME_TAX_BRACKETS[INCOME_TAX_BRACKETS.length - 1];
+};
+
+// Alíquota efetiva de um investimento resgatado em `redemptionDate` (padrão: vencimento)
+export const resolveIncomeTax = (
+  investment: Partial<Investment>,
+  redemptionDate?: string | Date
+): IncomeTaxInfo => {
+  if (isTaxExempt(investment.title)) {
+    return { rate: 0, label: 'Isento', exempt: true, manual: false };
+  }
+
+  if (investment.manualIncomeTax) {
+    return { rate: investment.incomeTax || 0, label: 'Manual', exempt: false, manual: true };
+  }
+
+  const end = redemptionDate || investment.dueDate;
+  if (!end) return { rate: 0, label: '-', exempt: false, manual: false };
+
+  const holdingDays = countCalendarDays(investment.startDate || new Date(), end);
+  const bracket = getIncomeTaxBracket(holdingDays);
+  return { rate: bracket.rate, label: bracket.label, exempt: false, manual: false };
+};
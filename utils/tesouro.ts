@@ -0,0 +1,138 @@
+import { Investment, InvestmentTitle, MarketRates } from '../types';
+import { countBusinessDays, toISODate, toUTCDate } from './holidays';
+import { resolveIncomeTax } from './taxes';
+import { getIpcaFactor } from './rates';
+
+// Valor de face da LTN no vencimento
+export const LTN_FACE_VALUE = 1000;
+// Cupom de 6% a.a. da NTN-B, pago semestralmente: (1,06)^(1/2) - 1 ≈ 2,9563%
+export const NTNB_SEMIANNUAL_COUPON = Math.sqrt(1.06) - 1;
+// Taxa de custódia da B3 (% a.a. sobre o valor da posição)
+export const B3_CUSTODY_FEE = 0.2;
+
+export interface CashFlow {
+  date: string; // ISO Date
+  amount: number;
+  kind: 'coupon' | 'maturity';
+}
+
+export interface TesouroValuation {
+  gross: number;      // Valor da posição na data + cupons já pagos
+  net: number;        // Após custódia B3 e IR
+  custodyFee: number;
+  incomeTax: number;
+  unitPrice: number;  // PU na data de avaliação
+  cashFlows: CashFlow[];
+}
+
+export const isTesouroTitle = (title?: string): boolean => {
+  return title === InvestmentTitle.LTN || title === InvestmentTitle.NTNB;
+};
+
+const addMonths = (date: Date, months: number): Date => {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, date.getUTCDate()));
+};
+
+// Datas de cupom da NTN-B posteriores a `after`, de 6 em 6 meses até o vencimento (inclusive)
+export const getNtnbCouponDates = (dueDate: string, after: string): string[] => {
+  const due = toUTCDate(dueDate);
+  const from = toUTCDate(after);
+  const dates: string[] = [];
+
+  for (let date = due, i = 1; date > from; date = addMonths(due, -6 * i++)) {
+    dates.unshift(toISODate(date));
+  }
+  return dates;
+};
+
+const discount = (rate: number, from: string | Date, to: string | Date): number => {
+  return Math.pow(1 + rate, countBusinessDays(from, to) / 252);
+};
+
+// Cotação da NTN-B (percentual do VNA) descontando cupons e principal à taxa real
+export const getNtnbQuote = (dueDate: string, date: string, realRate: number): number => {
+  return getNtnbCouponDates(dueDate, date).reduce((acc, couponDate) => {
+    const flow = couponDate === toISODate(toUTCDate(dueDate)) ? 1 + NTNB_SEMIANNUAL_COUPON : NTNB_SEMIANNUAL_COUPON;
+    return acc + flow / discount(realRate, date, couponDate);
+  }, 0);
+};
+
+// PU da LTN na curva: valor de face descontado pela taxa contratada
+export const getLtnUnitPrice = (dueDate: string, date: string, rate: number): number => {
+  return LTN_FACE_VALUE / discount(rate, date, dueDate);
+};
+
+/**
+ * Precificação de LTN e NTN-B pelo PU de compra e quantidade de títulos.
+ * A NTN-B tem o VNA de compra implícito no PU (PU = VNA × cotação) e é corrigida pelo IPCA projetado.
+ */
+export const valueTesouro = (
+  investment: Partial<Investment>,
+  marketRates: MarketRates,
+  valuationDate?: string
+): TesouroValuation => {
+  const principal = investment.amount || 0;
+  const quantity = investment.quantity || 1;
+  const purchasePrice = investment.unitPrice || principal / quantity;
+  const rate = (investment.interestRate || 0) / 100;
+  const dueDate = toISODate(toUTCDate(investment.dueDate!));
+  const start = toISODate(toUTCDate(investment.startDate || new Date()));
+  const requested = valuationDate ? toISODate(toUTCDate(valuationDate)) : dueDate;
+  const until = requested < dueDate ? requested : dueDate;
+
+  const cashFlows: CashFlow[] = [];
+  let positionValue = 0;
+  let unitPrice = purchasePrice;
+
+  if (investment.title === InvestmentTitle.NTNB) {
+    const purchaseVna = purchasePrice / getNtnbQuote(dueDate, start, rate);
+    // VNA corrigido pelo IPCA realizado até hoje e projetado daí em diante
+    const vnaAt = (date: string) => purchaseVna * getIpcaFactor(start, date, marketRates);
+
+    getNtnbCouponDates(dueDate, start)
+      .filter(date => date <= until)
+      .forEach(date => {
+        cashFlows.push({ date, amount: quantity * vnaAt(date) * NTNB_SEMIANNUAL_COUPON, kind: 'coupon' });
+        if (date === dueDate) {
+          cashFlows.push({ date, amount: quantity * vnaAt(date), kind: 'maturity' });
+        }
+      });
+
+    if (until < dueDate) {
+      unitPrice = vnaAt(until) * getNtnbQuote(dueDate, until, rate);
+      positionValue = quantity * unitPrice;
+    }
+  } else {
+    if (until < dueDate) {
+      unitPrice = getLtnUnitPrice(dueDate, until, rate);
+      positionValue = quantity * unitPrice;
+    } else {
+      unitPrice = LTN_FACE_VALUE;
+      cashFlows.push({ date: dueDate, amount: quantity * LTN_FACE_VALUE, kind: 'maturity' });
+    }
+  }
+
+  const gross = positionValue + cashFlows.reduce((acc, flow) => acc + flow.amount, 0);
+
+  // Custódia pro rata sobre o saldo médio do período
+  const years = countBusinessDays(start, until) / 252;
+  const custodyFee = ((principal + gross) / 2) * (B3_CUSTODY_FEE / 100) * years;
+
+  // Cada cupom tem IR retido no pagamento, pela faixa do prazo decorrido até ele
+  const coupons = cashFlows.filter(flow => flow.kind === 'coupon');
+  const couponTax = coupons.reduce((acc, flow) => acc + flow.amount * (resolveIncomeTax(investment, flow.date).rate / 100), 0);
+
+  // O fluxo final (posição na data ou resgate no vencimento) paga IR sobre o ganho frente ao principal
+  const finalValue = gross - coupons.reduce((acc, flow) => acc + flow.amount, 0);
+  const finalProfit = finalValue - principal - custodyFee;
+  const incomeTax = couponTax + (finalProfit > 0 ? finalProfit * (resolveIncomeTax(investment, until).rate / 100) : 0);
+
+  return {
+    gross,
+    net: gross - custodyFee - incomeTax,
+    custodyFee,
+    incomeTax,
+    unitPrice,
+    cashFlows,
+  };
+};